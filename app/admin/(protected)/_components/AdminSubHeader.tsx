@@ -0,0 +1,23 @@
+// app/admin/(protected)/_components/AdminSubHeader.tsx
+import Link from "next/link";
+
+/** 管理サブページ共通のヘッダー（注文管理へ戻るリンク付き） */
+export default function AdminSubHeader({
+  title,
+  children,
+}: {
+  title: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <header className="sticky top-0 z-10 border-b bg-white md:bg-white/80 md:backdrop-blur print:hidden">
+      <div className="mx-auto max-w-5xl px-3 py-2 flex items-center gap-3">
+        <Link href="/admin" className="rounded-lg border px-3 py-1.5 text-sm bg-white text-gray-900">
+          ← 注文管理
+        </Link>
+        <h1 className="text-lg md:text-xl font-semibold text-gray-900">{title}</h1>
+        {children && <div className="ml-auto flex items-center gap-2">{children}</div>}
+      </div>
+    </header>
+  );
+}
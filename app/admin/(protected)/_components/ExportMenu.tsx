@@ -0,0 +1,98 @@
+// app/admin/(protected)/_components/ExportMenu.tsx
+"use client";
+
+import { useState } from "react";
+import { addDays, jstDate } from "@/lib/jst";
+import { ORDER_STATUSES, STATUS_LABELS } from "@/lib/orderStatus";
+
+/** 出力できる絞り込み（空はすべて） */
+const STATUS_OPTIONS = [
+  { value: "", label: "すべて" },
+  { value: "active", label: "進行中" },
+  { value: "done", label: "処理済み" },
+  ...ORDER_STATUSES.map((s) => ({ value: s, label: STATUS_LABELS[s] })),
+];
+
+/** 注文の CSV / Excel ダウンロード（期間・ステータス指定） */
+export default function ExportMenu({ className = "" }: { className?: string }) {
+  const today = jstDate();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [status, setStatus] = useState("");
+
+  const href = (format: "csv" | "xlsx", sheet?: "orders" | "items") => {
+    const qs = new URLSearchParams({ format, from, to });
+    if (sheet) qs.set("sheet", sheet);
+    if (status) qs.set("status", status);
+    return `/api/orders/export?${qs}`;
+  };
+
+  const input = "w-full rounded-lg border border-gray-300 px-2 py-1 text-sm text-gray-900";
+  const link = "block rounded-lg border px-3 py-1.5 text-center text-sm text-gray-900 hover:bg-gray-50";
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="w-full rounded-lg border px-3 py-1.5 text-sm bg-white text-gray-900 whitespace-nowrap"
+        title="注文を CSV / Excel でダウンロードします"
+        aria-expanded={open}
+      >
+        ⬇ ダウンロード
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 space-y-2 rounded-xl border bg-white p-3 shadow-lg">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-xs text-gray-600">開始日</span>
+              <input type="date" className={input} value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">終了日</span>
+              <input type="date" className={input} value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </label>
+          </div>
+          <div className="flex gap-1 text-xs">
+            {[7, 30].map((d) => (
+              <button
+                key={d}
+                onClick={() => {
+                  setTo(today);
+                  setFrom(addDays(today, -(d - 1)));
+                }}
+                className="rounded border px-2 py-0.5 text-gray-700"
+              >
+                直近{d}日
+              </button>
+            ))}
+          </div>
+          <label className="block">
+            <span className="text-xs text-gray-600">ステータス</span>
+            <select className={`${input} bg-white`} value={status} onChange={(e) => setStatus(e.target.value)}>
+              {STATUS_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {from && to && (
+            <div className="grid gap-1.5 pt-1">
+              <a href={href("csv", "orders")} className={link}>
+                CSV（注文ごと）
+              </a>
+              <a href={href("csv", "items")} className={link}>
+                CSV（明細ごと）
+              </a>
+              <a href={href("xlsx")} className={link}>
+                Excel（注文・明細の2シート）
+              </a>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+// app/admin/(protected)/_components/KioskLock.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { safeJson } from "@/lib/safeJson";
+import type { Permission } from "@/lib/roles";
+
+/** GET /api/admin/me の応答（共有端末ならロック中は staff が null） */
+export type Me = {
+  staff: { id: string; name: string; role_label: string } | null;
+  permissions: Permission[];
+  device: {
+    id: string;
+    name: string;
+    /** このままだと自動ロックされる時刻（ロック中は null） */
+    lock_at: string | null;
+    staff_options: { id: string; name: string }[];
+  } | null;
+};
+
+export type Kiosk = ReturnType<typeof useKiosk>;
+
+/**
+ * ログイン中のスタッフと共有端末のロック状態。
+ * 共有端末では操作の前に ensureUnlocked() を呼ぶ（ロック中なら PIN を聞く）。
+ */
+export function useKiosk() {
+  const [me, setMe] = useState<Me | null>(null);
+  const [asking, setAsking] = useState(false);
+  const waiter = useRef<((ok: boolean) => void) | null>(null);
+
+  async function refresh() {
+    try {
+      const r = await fetch("/api/admin/me", { cache: "no-store", credentials: "include" });
+      const j = await safeJson<{ ok: boolean } & Me>(r);
+      if (j.ok) setMe({ staff: j.staff ?? null, permissions: j.permissions ?? [], device: j.device ?? null });
+    } catch {}
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // 自動ロックの時刻が来たら取り直す（ロック画面に戻る）
+  const lockAt = me?.device?.lock_at;
+  useEffect(() => {
+    if (!lockAt) return;
+    const t = setTimeout(refresh, Math.max(Date.parse(lockAt) - Date.now() + 1000, 1000));
+    return () => clearTimeout(t);
+  }, [lockAt]);
+
+  const isDevice = Boolean(me?.device);
+  const unlocked = !isDevice || (Boolean(me?.staff) && Boolean(lockAt) && Date.parse(lockAt!) > Date.now());
+
+  /** PIN 入力を開き、切り替えできたら true */
+  function askPin() {
+    waiter.current?.(false);
+    setAsking(true);
+    return new Promise<boolean>((resolve) => {
+      waiter.current = resolve;
+    });
+  }
+
+  function finish(ok: boolean) {
+    setAsking(false);
+    waiter.current?.(ok);
+    waiter.current = null;
+  }
+
+  /** 操作の前に呼ぶ。個人ログインならそのまま true */
+  function ensureUnlocked() {
+    return unlocked ? Promise.resolve(true) : askPin();
+  }
+
+  /** 操作のあとに呼ぶ（サーバ側で無操作タイマーが延びたのを反映） */
+  function touched() {
+    if (isDevice) refresh();
+  }
+
+  async function unlock(staffId: string, pin: string) {
+    const r = await fetch("/api/admin/device/unlock", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ staff_id: staffId, pin }),
+    });
+    const j = await safeJson<{ ok: boolean; error?: string }>(r);
+    if (!r.ok || j.ok === false) throw new Error(j.error || `切り替えに失敗しました（HTTP ${r.status}）`);
+    await refresh();
+  }
+
+  async function lock() {
+    await fetch("/api/admin/device/lock", { method: "POST", credentials: "include" }).catch(() => {});
+    await refresh();
+  }
+
+  /**
+   * ボタンを出すか。共有端末のロック中は誰が操作するか分からないので出しておき、
+   * PIN で切り替えたあとの権限は API が判定する。
+   */
+  function allowed(p: Permission) {
+    if (isDevice && !unlocked) return true;
+    return me?.permissions.includes(p) ?? false;
+  }
+
+  return { me, isDevice, unlocked, asking, ensureUnlocked, askPin, finish, touched, unlock, lock, allowed };
+}
+
+/** 共有端末のバー（端末名・担当者・切替・ロック）。個人ログインでは何も出さない */
+export function KioskBar({ kiosk, dark = false }: { kiosk: Kiosk; dark?: boolean }) {
+  const { me } = kiosk;
+  if (!me?.device) return null;
+  const btn = `rounded-lg border px-3 py-1.5 text-sm whitespace-nowrap ${
+    dark ? "border-gray-600 text-gray-100" : "bg-white text-gray-900"
+  }`;
+  return (
+    <div className="flex items-center gap-2">
+      <span className={`text-xs ${dark ? "text-gray-400" : "text-gray-500"}`}>{me.device.name}</span>
+      {kiosk.unlocked && me.staff ? (
+        <>
+          <span className={`text-sm font-semibold ${dark ? "text-white" : "text-gray-900"}`}>担当：{me.staff.name}</span>
+          <button onClick={() => kiosk.askPin()} className={btn}>
+            切替
+          </button>
+          <button onClick={() => kiosk.lock()} className={btn}>
+            🔒 ロック
+          </button>
+        </>
+      ) : (
+        <button onClick={() => kiosk.askPin()} className={btn}>
+          🔒 ロック中（担当者を選ぶ）
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** 担当者を選んで PIN を入れるダイアログ（ページに1つ置く） */
+export function KioskPinDialog({ kiosk }: { kiosk: Kiosk }) {
+  const [staffId, setStaffId] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (kiosk.asking) {
+      setStaffId(null);
+      setPin("");
+      setError(null);
+    }
+  }, [kiosk.asking]);
+
+  if (!kiosk.asking || !kiosk.me?.device) return null;
+  const options = kiosk.me.device.staff_options;
+
+  async function submit(value: string) {
+    if (!staffId || !value) return;
+    setBusy(true);
+    try {
+      await kiosk.unlock(staffId, value);
+      kiosk.finish(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+      setPin("");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function press(key: string) {
+    setError(null);
+    if (key === "⌫") setPin((p) => p.slice(0, -1));
+    else if (pin.length < 8) setPin((p) => p + key);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 text-gray-900">
+      <div role="dialog" aria-modal="true" className="w-full max-w-sm rounded-2xl bg-white p-5 shadow-2xl space-y-4">
+        <h3 className="text-lg font-semibold">{staffId ? "PIN を入力" : "担当者を選んでください"}</h3>
+
+        {!staffId ? (
+          options.length === 0 ? (
+            <p className="text-sm text-gray-600">PIN を設定したスタッフがいません。オーナーがスタッフ管理で設定してください。</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {options.map((s) => (
+                <button
+                  key={s.id}
+                  onClick={() => setStaffId(s.id)}
+                  className="rounded-xl border px-3 py-3 text-base font-semibold"
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          )
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {options.find((s) => s.id === staffId)?.name}
+              <button onClick={() => setStaffId(null)} className="ml-2 underline">
+                選び直す
+              </button>
+            </p>
+            <p className="h-10 rounded-xl border text-center text-3xl tracking-[0.5em] tabular-nums">
+              {"●".repeat(pin.length)}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {["1", "2", "3", "4", "5", "6", "7", "8", "9", "⌫", "0", "OK"].map((k) => (
+                <button
+                  key={k}
+                  disabled={busy}
+                  onClick={() => (k === "OK" ? submit(pin) : press(k))}
+                  className={`rounded-xl py-3 text-xl font-semibold disabled:opacity-60 ${
+                    k === "OK" ? "bg-gray-900 text-white" : "border"
+                  }`}
+                >
+                  {k}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {error && <p className="rounded-lg bg-red-50 p-2 text-sm text-red-600">{error}</p>}
+
+        <button onClick={() => kiosk.finish(false)} className="w-full rounded-xl border py-2 text-sm">
+          やめる
+        </button>
+      </div>
+    </div>
+  );
+}
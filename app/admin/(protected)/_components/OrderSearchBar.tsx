@@ -0,0 +1,96 @@
+// app/admin/(protected)/_components/OrderSearchBar.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { ORDER_SORTS, type OrderSort } from "@/lib/orderQuery";
+
+/** 一覧の検索条件（from/to は datetime-local の値＝日本時間） */
+export type OrderSearch = {
+  q: string;
+  from: string;
+  to: string;
+  item: string;
+  sort: OrderSort;
+};
+
+export const EMPTY_SEARCH: OrderSearch = { q: "", from: "", to: "", item: "", sort: "created_desc" };
+
+/** 検索・期間・商品・並び順の入力欄（フリーワードは入力が止まってから反映） */
+export default function OrderSearchBar({
+  value,
+  onChange,
+  menuItems,
+}: {
+  value: OrderSearch;
+  onChange: (v: OrderSearch) => void;
+  menuItems: { id: string; name: string }[];
+}) {
+  const [text, setText] = useState(value.q);
+
+  useEffect(() => setText(value.q), [value.q]);
+  useEffect(() => {
+    if (text === value.q) return;
+    const t = setTimeout(() => onChange({ ...value, q: text }), 400);
+    return () => clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [text]);
+
+  const set = (patch: Partial<OrderSearch>) => onChange({ ...value, ...patch });
+  const input = "rounded-lg border border-gray-300 px-2 py-1 text-sm bg-white text-gray-900";
+  const active = value.q || value.from || value.to || value.item || value.sort !== EMPTY_SEARCH.sort;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2">
+      <input
+        type="search"
+        className={`${input} min-w-0 flex-1 md:flex-none md:w-56`}
+        placeholder="注文番号・メモ・商品名で検索"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        aria-label="フリーワード検索"
+      />
+      <input
+        type="datetime-local"
+        className={input}
+        value={value.from}
+        max={value.to || undefined}
+        onChange={(e) => set({ from: e.target.value })}
+        aria-label="注文日時（から）"
+      />
+      <span className="text-sm text-gray-500">〜</span>
+      <input
+        type="datetime-local"
+        className={input}
+        value={value.to}
+        min={value.from || undefined}
+        onChange={(e) => set({ to: e.target.value })}
+        aria-label="注文日時（まで）"
+      />
+      <select className={input} value={value.item} onChange={(e) => set({ item: e.target.value })} aria-label="商品で絞り込み">
+        <option value="">全商品</option>
+        {menuItems.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.name}
+          </option>
+        ))}
+      </select>
+      <select
+        className={input}
+        value={value.sort}
+        onChange={(e) => set({ sort: e.target.value as OrderSort })}
+        aria-label="並び順"
+      >
+        {(Object.keys(ORDER_SORTS) as OrderSort[]).map((k) => (
+          <option key={k} value={k}>
+            {ORDER_SORTS[k].label}
+          </option>
+        ))}
+      </select>
+      {active && (
+        <button onClick={() => onChange(EMPTY_SEARCH)} className="rounded-lg border px-2 py-1 text-sm text-gray-700">
+          条件クリア
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+// app/admin/(protected)/_components/PrintButton.tsx
+"use client";
+
+export default function PrintButton() {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="rounded-lg bg-gray-900 text-white px-3 py-1.5 text-sm"
+    >
+      🖨 印刷
+    </button>
+  );
+}
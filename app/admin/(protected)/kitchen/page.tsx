@@ -0,0 +1,391 @@
+// app/admin/(protected)/kitchen/page.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { safeJson } from "@/lib/safeJson";
+import { STATUS_LABELS, type OrderStatus } from "@/lib/orderStatus";
+import AdminSubHeader from "../_components/AdminSubHeader";
+import { KioskBar, KioskPinDialog, useKiosk } from "../_components/KioskLock";
+
+type Station = {
+  id: string;
+  name: string;
+  sort_order: number;
+  /** 伝票を出すネットワークプリンタ（未設定なら null） */
+  printer_host: string | null;
+  printer_port: number;
+};
+
+type Ticket = {
+  id: string;
+  order_no: string;
+  ticket_no: number | null;
+  table_label: string | null;
+  note: string | null;
+  status: OrderStatus;
+  created_at: string;
+  lines: { id: string; name: string; qty: number; options?: { name: string }[]; station?: string | null }[];
+};
+
+type QueueResp = {
+  ok: boolean;
+  tickets: Ticket[];
+  items: { id: string; name: string; qty: number }[];
+  /** 持ち場を割り当てていない明細をまとめる持ち場 */
+  unassigned: { id: string; name: string };
+  error?: string;
+};
+
+/** 選んだ持ち場は端末ごとに覚えておく */
+const STATION_KEY = "kitchen.station";
+
+/** 経過分 */
+function elapsedMin(iso: string, now: number) {
+  return Math.max(0, Math.floor((now - Date.parse(iso)) / 60_000));
+}
+
+export default function KitchenPage() {
+  const router = useRouter();
+  const kiosk = useKiosk();
+  const [stations, setStations] = useState<Station[]>([]);
+  const [station, setStation] = useState("");
+  const [queue, setQueue] = useState<QueueResp | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [live, setLive] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [draft, setDraft] = useState({ id: "", name: "" });
+  const stationRef = useRef(station);
+  stationRef.current = station;
+
+  async function fetchStations() {
+    try {
+      const res = await fetch("/api/admin/stations", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: Station[] }>(res);
+      if (json.ok) setStations(json.items ?? []);
+    } catch {}
+  }
+
+  async function fetchQueue() {
+    try {
+      const qs = stationRef.current ? `?station=${encodeURIComponent(stationRef.current)}` : "";
+      const res = await fetch(`/api/admin/kitchen${qs}`, { credentials: "include", cache: "no-store" });
+      if (res.status === 401) {
+        router.replace("/admin/login");
+        return;
+      }
+      const json = await safeJson<QueueResp>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `取得に失敗しました（HTTP ${res.status}）`);
+      }
+      setQueue(json as QueueResp);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /** 持ち場の担当分を完了（全持ち場が終わると注文は「提供待ち」に） */
+  async function markDone(ticket: Ticket, stationId: string) {
+    if (!(await kiosk.ensureUnlocked())) return;
+    setBusyId(`${ticket.id}:${stationId}`);
+    try {
+      const res = await fetch(`/api/admin/kitchen/${ticket.id}/done`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ station: stationId }),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `更新に失敗しました（HTTP ${res.status}）`);
+      }
+      await fetchQueue();
+      kiosk.touched();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function addStation(e: React.FormEvent) {
+    e.preventDefault();
+    const res = await fetch("/api/admin/stations", {
+      method: "POST",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: draft.id.trim(), name: draft.name.trim(), sort_order: stations.length }),
+    });
+    const json = await safeJson<{ ok: boolean; error?: string }>(res);
+    if (!res.ok || json.ok === false) {
+      alert(json.error || `追加に失敗しました（HTTP ${res.status}）`);
+      return;
+    }
+    setDraft({ id: "", name: "" });
+    fetchStations();
+  }
+
+  async function removeStation(s: Station) {
+    if (!confirm(`持ち場「${s.name}」を削除しますか？（割り当てていた商品は割り当てなしになります）`)) return;
+    const res = await fetch(`/api/admin/stations/${encodeURIComponent(s.id)}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) {
+      alert(`削除に失敗しました（HTTP ${res.status}）`);
+      return;
+    }
+    if (station === s.id) selectStation("");
+    fetchStations();
+  }
+
+  /** 持ち場のプリンタ（"192.168.1.50" / "192.168.1.50:9100"。空欄で解除） */
+  async function setPrinter(s: Station) {
+    const current = s.printer_host ? `${s.printer_host}:${s.printer_port}` : "";
+    const input = prompt(`「${s.name}」の伝票プリンタの IP アドレス（例: 192.168.1.50:9100）\n空欄で解除します。`, current);
+    if (input === null) return;
+    const m = input.trim().match(/^([^:\s]+)(?::(\d+))?$/);
+    if (input.trim() && !m) {
+      alert("「IPアドレス」または「IPアドレス:ポート」で入力してください");
+      return;
+    }
+    const res = await fetch(`/api/admin/stations/${encodeURIComponent(s.id)}`, {
+      method: "PATCH",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(
+        m ? { printer_host: m[1], printer_port: m[2] ? Number(m[2]) : 9100 } : { printer_host: null },
+      ),
+    });
+    const json = await safeJson<{ ok: boolean; error?: string }>(res);
+    if (!res.ok || json.ok === false) {
+      alert(json.error || `保存に失敗しました（HTTP ${res.status}）`);
+      return;
+    }
+    fetchStations();
+  }
+
+  function selectStation(id: string) {
+    setStation(id);
+    try {
+      localStorage.setItem(STATION_KEY, id);
+    } catch {}
+  }
+
+  useEffect(() => {
+    try {
+      setStation(localStorage.getItem(STATION_KEY) ?? "");
+    } catch {}
+    fetchStations();
+    const t = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(t);
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [station]);
+
+  /* 注文の変更を SSE で受けて取り直す（まとめて来ても 0.5 秒に 1 回） */
+  useEffect(() => {
+    const es = new EventSource("/api/orders/stream");
+    let pending: ReturnType<typeof setTimeout> | null = null;
+    es.addEventListener("hello", () => setLive(true));
+    es.addEventListener("error", () => setLive(false));
+    const refetch = () => {
+      if (pending) return;
+      pending = setTimeout(() => {
+        pending = null;
+        fetchQueue();
+      }, 500);
+    };
+    es.addEventListener("order", refetch);
+    es.addEventListener("reset", refetch);
+    return () => {
+      es.close();
+      if (pending) clearTimeout(pending);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /* ストリームが切れている間だけ 10 秒ごとに取得 */
+  useEffect(() => {
+    if (live) return;
+    const t = setInterval(fetchQueue, 10_000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [live]);
+
+  const unassigned = queue?.unassigned;
+  const stationName = (id: string | null | undefined) =>
+    stations.find((s) => s.id === id)?.name ?? (unassigned && id === unassigned.id ? unassigned.name : id) ?? "";
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {kiosk.isDevice ? (
+        // 共有端末：設定は出さず、担当者の切替だけ
+        <header className="border-b border-gray-700">
+          <div className="mx-auto flex max-w-6xl flex-wrap items-center gap-3 px-4 py-3">
+            <h1 className="text-lg font-bold">キッチン</h1>
+            <Link href="/admin" className="text-sm text-gray-300 underline-offset-4 hover:underline">
+              注文ボード
+            </Link>
+            <div className="ml-auto">
+              <KioskBar kiosk={kiosk} dark />
+            </div>
+          </div>
+        </header>
+      ) : (
+        <AdminSubHeader title="キッチン">
+          {kiosk.allowed("manage_stations") && (
+            <button onClick={() => setSettingsOpen((v) => !v)} className="rounded-lg border px-3 py-1.5 text-sm text-gray-900">
+              持ち場の設定
+            </button>
+          )}
+        </AdminSubHeader>
+      )}
+
+      <main className="mx-auto max-w-6xl px-4 py-4 space-y-4">
+        {/* ===== 持ち場の切替 ===== */}
+        <div className="flex flex-wrap gap-2">
+          {[{ id: "", name: "全体" }, ...stations, ...(unassigned ? [unassigned] : [])].map((s) => (
+            <button
+              key={s.id || "all"}
+              onClick={() => selectStation(s.id)}
+              className={`rounded-xl px-4 py-2 text-base font-semibold border ${
+                station === s.id ? "bg-white text-gray-900 border-white" : "border-gray-600 text-gray-200"
+              }`}
+            >
+              {s.name}
+            </button>
+          ))}
+          <span className="ml-auto self-center text-xs text-gray-400">{live ? "● リアルタイム" : "○ 10秒ごとに更新"}</span>
+        </div>
+
+        {settingsOpen && !kiosk.isDevice && (
+          <section className="rounded-2xl bg-white p-4 text-gray-900 space-y-3">
+            <h2 className="text-sm font-semibold">持ち場の設定</h2>
+            <p className="text-xs text-gray-600">
+              商品の振り分けは「メニュー・売り切れ」で商品ごとに設定します。プリンタを設定した持ち場は、注文が入ると伝票が自動で印刷されます。
+            </p>
+            <ul className="divide-y text-sm">
+              {stations.map((s) => (
+                <li key={s.id} className="flex items-center gap-2 py-1.5">
+                  <span className="text-xs text-gray-500">{s.id}</span>
+                  <span>{s.name}</span>
+                  <span className="text-xs text-gray-500">
+                    🖨 {s.printer_host ? `${s.printer_host}:${s.printer_port}` : "プリンタなし"}
+                  </span>
+                  <button onClick={() => setPrinter(s)} className="ml-auto rounded-lg border px-2 py-1 text-xs">
+                    プリンタ
+                  </button>
+                  <button
+                    onClick={() => removeStation(s)}
+                    className="rounded-lg bg-red-600 px-2 py-1 text-xs text-white"
+                  >
+                    削除
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <form onSubmit={addStation} className="flex flex-wrap gap-2">
+              <input
+                className="w-32 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                placeholder="ID（例: grill）"
+                value={draft.id}
+                onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+                required
+              />
+              <input
+                className="w-40 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                placeholder="名前（例: 焼き場）"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+              <button type="submit" className="rounded-lg bg-gray-900 px-3 py-1 text-sm text-white">
+                追加
+              </button>
+            </form>
+          </section>
+        )}
+
+        {error && <div className="rounded-lg border border-red-400 bg-red-900/40 p-3 text-sm">{error}</div>}
+
+        {/* ===== 商品ごとの作る数 ===== */}
+        {queue && queue.items.length > 0 && (
+          <section className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-5">
+            {queue.items.map((it) => (
+              <div key={it.id} className="rounded-2xl bg-gray-800 p-3">
+                <p className="truncate text-sm text-gray-300">{it.name}</p>
+                <p className="text-4xl font-bold tabular-nums">{it.qty}</p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* ===== 注文ごと（古い順） ===== */}
+        {queue && queue.tickets.length === 0 ? (
+          <p className="py-10 text-center text-gray-400">作る注文はありません。</p>
+        ) : (
+          <ul className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {queue?.tickets.map((t) => {
+              const mins = elapsedMin(t.created_at, now);
+              const ticketStations = station
+                ? [station]
+                : Array.from(new Set(t.lines.map((l) => l.station).filter((s): s is string => Boolean(s))));
+              return (
+                <li
+                  key={t.id}
+                  className={`rounded-2xl p-3 text-gray-900 ${mins >= 15 ? "bg-red-100" : mins >= 8 ? "bg-yellow-100" : "bg-white"}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-2xl font-bold tabular-nums">#{t.ticket_no ?? t.order_no}</span>
+                    {t.table_label && (
+                      <span className="rounded-lg bg-gray-900 px-2 py-0.5 text-sm font-bold text-white">{t.table_label}</span>
+                    )}
+                    <span className="text-xs text-gray-600">{STATUS_LABELS[t.status]}</span>
+                    <span className="ml-auto text-sm tabular-nums text-gray-700">{mins}分</span>
+                  </div>
+                  <ul className="mt-2 space-y-1">
+                    {t.lines.map((l, i) => (
+                      <li key={i} className="flex items-baseline gap-2 text-lg">
+                        <span className="font-bold tabular-nums">{l.qty}</span>
+                        <span>
+                          {l.name}
+                          {l.options && l.options.length > 0 && (
+                            <span className="ml-1 text-sm text-gray-600">（{l.options.map((o) => o.name).join("・")}）</span>
+                          )}
+                        </span>
+                        {!station && <span className="ml-auto text-xs text-gray-500">{stationName(l.station)}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                  {t.note && <p className="mt-2 rounded-lg bg-yellow-50 px-2 py-1 text-sm text-gray-800">📝 {t.note}</p>}
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {ticketStations.map((s) => (
+                      <button
+                        key={s}
+                        onClick={() => markDone(t, s)}
+                        disabled={busyId === `${t.id}:${s}`}
+                        className="flex-1 rounded-xl bg-green-600 px-3 py-2 text-base font-semibold text-white disabled:opacity-60"
+                      >
+                        ✅ {station ? "完了" : `${stationName(s)} 完了`}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+
+      <KioskPinDialog kiosk={kiosk} />
+    </div>
+  );
+}
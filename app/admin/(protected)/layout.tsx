@@ -1,6 +1,6 @@
 // app/admin/(protected)/layout.tsx
-import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
+import { requireViewer } from "@/lib/auth";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -10,11 +10,11 @@ export default async function ProtectedLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const cookieStore = await cookies(); // ← ここをawait
-  const authed = cookieStore.get("admin_auth")?.value === "1";
+  // 共有端末はロック中でも開ける（操作のときに PIN を求める）
+  const session = await requireViewer();
 
-  if (!authed) {
-    redirect("/admin/login"); // 未ログインはログインへ（ここで処理終了）
+  if (!session) {
+    redirect("/admin/login"); // 未ログイン/期限切れはログインへ（ここで処理終了）
   }
 
   return <>{children}</>;
@@ -0,0 +1,392 @@
+// app/admin/(protected)/menu/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { safeJson } from "@/lib/safeJson";
+import AdminSubHeader from "../_components/AdminSubHeader";
+
+type MenuOption = { name: string; price: number };
+
+type MenuItem = {
+  id: string;
+  name: string;
+  price: number;
+  tax_rate: 8 | 10;
+  category: string | null;
+  options: MenuOption[];
+  active: boolean;
+  sold_out: boolean;
+  sort_order: number;
+  station_id: string | null;
+};
+
+type Station = { id: string; name: string };
+
+type Draft = {
+  id: string;
+  name: string;
+  price: string;
+  tax_rate: "8" | "10";
+  category: string;
+  options: string;
+  sort_order: string;
+  station_id: string;
+  active: boolean;
+};
+
+const EMPTY_DRAFT: Draft = {
+  id: "",
+  name: "",
+  price: "",
+  tax_rate: "10",
+  category: "",
+  options: "",
+  sort_order: "0",
+  station_id: "",
+  active: true,
+};
+
+/** 「大盛り:100, 小:0」形式 ⇔ 選択肢配列 */
+function optionsToText(options: MenuOption[]) {
+  return options.map((o) => `${o.name}:${o.price}`).join(", ");
+}
+function textToOptions(text: string): MenuOption[] {
+  return text
+    .split(/[,、]/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const [name, price] = s.split(":");
+      return { name: name.trim(), price: Number(price ?? 0) || 0 };
+    });
+}
+
+function toDraft(m: MenuItem): Draft {
+  return {
+    id: m.id,
+    name: m.name,
+    price: String(m.price),
+    tax_rate: m.tax_rate === 8 ? "8" : "10",
+    category: m.category ?? "",
+    options: optionsToText(m.options ?? []),
+    sort_order: String(m.sort_order ?? 0),
+    station_id: m.station_id ?? "",
+    active: m.active,
+  };
+}
+
+function draftToBody(d: Draft) {
+  return {
+    name: d.name.trim(),
+    price: Number(d.price),
+    tax_rate: Number(d.tax_rate),
+    category: d.category.trim() || null,
+    options: textToOptions(d.options),
+    sort_order: Number(d.sort_order) || 0,
+    station_id: d.station_id || null,
+    active: d.active,
+  };
+}
+
+export default function MenuAdminPage() {
+  const [items, setItems] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newDraft, setNewDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [stations, setStations] = useState<Station[]>([]);
+
+  async function fetchMenu() {
+    try {
+      const res = await fetch("/api/admin/menu", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: MenuItem[]; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `メニューの取得に失敗しました（HTTP ${res.status}）`);
+      }
+      setItems(json.items ?? []);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** 共通：API 呼び出し→一覧再取得 */
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `保存に失敗しました（HTTP ${res.status}）`);
+      }
+      await fetchMenu();
+      return true;
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = await send("/api/admin/menu", "POST", { id: newDraft.id.trim(), ...draftToBody(newDraft) });
+    if (ok) setNewDraft(EMPTY_DRAFT);
+  }
+
+  async function saveEdit() {
+    if (!editing) return;
+    const ok = await send(`/api/admin/menu/${encodeURIComponent(editing.id)}`, "PATCH", draftToBody(editing));
+    if (ok) setEditing(null);
+  }
+
+  async function toggleActive(m: MenuItem) {
+    await send(`/api/admin/menu/${encodeURIComponent(m.id)}`, "PATCH", { active: !m.active });
+  }
+
+  /** 売り切れ切替（お客様サイトには /api/public/status 経由で即反映） */
+  async function toggleSoldOut(m: MenuItem) {
+    await send(`/api/admin/menu/${encodeURIComponent(m.id)}`, "PATCH", { sold_out: !m.sold_out });
+  }
+
+  async function remove(m: MenuItem) {
+    if (!confirm(`「${m.name}」を削除しますか？`)) return;
+    await send(`/api/admin/menu/${encodeURIComponent(m.id)}`, "DELETE");
+  }
+
+  /** 持ち場（キッチンディスプレイの振り分け先） */
+  async function fetchStations() {
+    try {
+      const res = await fetch("/api/admin/stations", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: Station[] }>(res);
+      if (json.ok) setStations(json.items ?? []);
+    } catch {}
+  }
+
+  useEffect(() => {
+    fetchMenu();
+    fetchStations();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminSubHeader title="メニュー管理" />
+
+      <main className="mx-auto max-w-5xl px-4 py-6 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 text-sm">{error}</div>
+        )}
+
+        {/* ===== 追加フォーム ===== */}
+        <form onSubmit={create} className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
+          <h2 className="text-base md:text-sm font-semibold text-gray-900">商品を追加</h2>
+          <DraftFields draft={newDraft} onChange={setNewDraft} stations={stations} withId />
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded-xl bg-gray-900 text-white px-4 py-2 text-sm disabled:opacity-60"
+          >
+            追加
+          </button>
+        </form>
+
+        {/* ===== 一覧 ===== */}
+        {loading ? (
+          <p className="text-sm text-gray-500">読み込み中…</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">メニューはまだありません。</p>
+        ) : (
+          <ul className="grid gap-3">
+            {items.map((m) =>
+              editing?.id === m.id ? (
+                <li key={m.id} className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
+                  <DraftFields draft={editing} onChange={setEditing} stations={stations} />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={saveEdit}
+                      disabled={busy}
+                      className="rounded-xl bg-gray-900 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      保存
+                    </button>
+                    <button onClick={() => setEditing(null)} className="rounded-xl border px-3 py-1.5 text-sm">
+                      やめる
+                    </button>
+                  </div>
+                </li>
+              ) : (
+                <li
+                  key={m.id}
+                  className={`rounded-2xl border bg-white p-4 shadow-sm ${m.active ? "" : "opacity-60"}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500">{m.id}</span>
+                    {m.category && (
+                      <span className="inline-flex items-center rounded-full border px-2 py-0.5 text-xs text-gray-700">
+                        {m.category}
+                      </span>
+                    )}
+                    {m.station_id && (
+                      <span className="inline-flex items-center rounded-full border border-orange-200 bg-orange-50 px-2 py-0.5 text-xs text-orange-700">
+                        {stations.find((st) => st.id === m.station_id)?.name ?? m.station_id}
+                      </span>
+                    )}
+                    {m.sold_out && (
+                      <span className="inline-flex items-center rounded-full border border-red-200 bg-red-50 px-2 py-0.5 text-xs text-red-700">
+                        売り切れ
+                      </span>
+                    )}
+                    {!m.active && (
+                      <span className="inline-flex items-center rounded-full border border-gray-300 bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                        販売停止
+                      </span>
+                    )}
+                    <span className="ml-auto text-sm font-semibold tabular-nums text-gray-900">
+                      ¥{m.price.toLocaleString()}
+                      <span className="ml-1 text-xs font-normal text-gray-500">{m.tax_rate ?? 10}%</span>
+                    </span>
+                  </div>
+                  <p className="mt-1 text-base text-gray-900">{m.name}</p>
+                  {m.options?.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">選択肢：{optionsToText(m.options)}</p>
+                  )}
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      onClick={() => toggleSoldOut(m)}
+                      disabled={busy}
+                      className={`rounded-xl px-3 py-1.5 text-sm border disabled:opacity-60 ${
+                        m.sold_out ? "bg-red-600 text-white border-red-600" : "bg-white"
+                      }`}
+                    >
+                      {m.sold_out ? "売り切れ解除" : "売り切れにする"}
+                    </button>
+                    <button onClick={() => setEditing(toDraft(m))} className="rounded-xl border px-3 py-1.5 text-sm">
+                      編集
+                    </button>
+                    <button
+                      onClick={() => toggleActive(m)}
+                      disabled={busy}
+                      className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      {m.active ? "販売停止にする" : "販売再開"}
+                    </button>
+                    <button
+                      onClick={() => remove(m)}
+                      disabled={busy}
+                      className="ml-auto rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </li>
+              ),
+            )}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
+
+/** 入力欄一式（追加・編集で共用） */
+function DraftFields({
+  draft,
+  onChange,
+  stations,
+  withId = false,
+}: {
+  draft: Draft;
+  onChange: (d: Draft) => void;
+  stations: Station[];
+  withId?: boolean;
+}) {
+  const input = "w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900";
+  const set = (patch: Partial<Draft>) => onChange({ ...draft, ...patch });
+  return (
+    <div className="grid gap-2 md:grid-cols-3">
+      {withId && (
+        <label className="block">
+          <span className="text-xs text-gray-600">ID（お客様サイトと共通）</span>
+          <input className={input} value={draft.id} onChange={(e) => set({ id: e.target.value })} required />
+        </label>
+      )}
+      <label className="block">
+        <span className="text-xs text-gray-600">商品名</span>
+        <input className={input} value={draft.name} onChange={(e) => set({ name: e.target.value })} required />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">価格（円）</span>
+        <input
+          className={input}
+          type="number"
+          min={0}
+          inputMode="numeric"
+          value={draft.price}
+          onChange={(e) => set({ price: e.target.value })}
+          required
+        />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">消費税率</span>
+        <select
+          className={`${input} bg-white`}
+          value={draft.tax_rate}
+          onChange={(e) => set({ tax_rate: e.target.value as Draft["tax_rate"] })}
+        >
+          <option value="10">10%（標準）</option>
+          <option value="8">8%（軽減）</option>
+        </select>
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">カテゴリ</span>
+        <input className={input} value={draft.category} onChange={(e) => set({ category: e.target.value })} />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">持ち場（キッチン）</span>
+        <select
+          className={`${input} bg-white`}
+          value={draft.station_id}
+          onChange={(e) => set({ station_id: e.target.value })}
+        >
+          <option value="">割り当てなし</option>
+          {stations.map((st) => (
+            <option key={st.id} value={st.id}>
+              {st.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">並び順</span>
+        <input
+          className={input}
+          type="number"
+          value={draft.sort_order}
+          onChange={(e) => set({ sort_order: e.target.value })}
+        />
+      </label>
+      <label className="block md:col-span-2">
+        <span className="text-xs text-gray-600">選択肢（例: 大盛り:100, 小盛り:0）</span>
+        <input className={input} value={draft.options} onChange={(e) => set({ options: e.target.value })} />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-800">
+        <input
+          type="checkbox"
+          className="h-4 w-4 appearance-auto"
+          checked={draft.active}
+          onChange={(e) => set({ active: e.target.checked })}
+        />
+        販売中
+      </label>
+    </div>
+  );
+}
@@ -2,54 +2,124 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { safeJson } from "@/lib/safeJson";
+import {
+  ACTIVE_STATUSES,
+  LINE_STATUS_LABELS,
+  ORDER_STATUSES,
+  STATUS_LABELS,
+  isActiveStatus,
+  lineStatusOf,
+  type LineStatus,
+  type OrderStatus,
+} from "@/lib/orderStatus";
+import type { OrderEvent } from "@/lib/orderEvents";
+import type { StreamEvent } from "@/lib/orderStream";
+import type { PrintJob, PrintJobStatus } from "@/lib/printJobs";
+import { ORDER_SORTS, orderMatchesQuery, rangeBoundary, searchTerms } from "@/lib/orderQuery";
+import ExportMenu from "./_components/ExportMenu";
+import { KioskBar, KioskPinDialog, useKiosk } from "./_components/KioskLock";
+import OrderSearchBar, { EMPTY_SEARCH, type OrderSearch } from "./_components/OrderSearchBar";
 
 /** 注文1件の型 */
 type Order = {
   id: string;
   order_no: string;
-  items: { id: string; name: string; qty: number; price?: number }[];
+  /** 呼び出し番号（営業日ごとの連番） */
+  ticket_no?: number | null;
+  items: {
+    id: string;
+    name: string;
+    qty: number;
+    price?: number;
+    tax_rate?: number;
+    options?: { name: string; price: number }[];
+    status?: LineStatus;
+    cancel_reason?: string | null;
+  }[];
   note?: string | null;
-  status: "pending" | "completed" | "cancelled";
+  subtotal?: number | null;
+  tax?: number | null;
+  total?: number | null;
+  tax_breakdown?: { rate: number; subtotal: number; tax: number }[] | null;
+  table_id?: string | null;
+  table_label?: string | null;
+  status: OrderStatus;
+  accepted_at?: string | null;
+  preparing_at?: string | null;
+  ready_at?: string | null;
+  served_at?: string | null;
+  cancelled_at?: string | null;
+  cleared_at?: string | null;
   created_at: string;
   updated_at: string;
 };
 
-/** 一覧APIの返却型 */
+/** 一覧APIの返却型（delta は updated_since 指定時の差分応答） */
 type ListResp = {
   ok: boolean;
   items: Order[];
   total_count: number;
   pending_count: number;
+  cursor: string;
+  delta?: boolean;
+  truncated?: boolean;
+  deleted_ids?: string[];
   error?: string;
 };
 
-type StatusFilter = "" | "pending" | "completed" | "cancelled";
-
-/* ------------------------------
-   Supabase（ブラウザ）初期化
-   env が揃っていてクライアント側なら生成
--------------------------------- */
-let supabase: SupabaseClient | null = null;
-const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const SUPABASE_ANON = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-if (typeof window !== "undefined" && SUPABASE_URL && SUPABASE_ANON) {
-  supabase = createClient(SUPABASE_URL, SUPABASE_ANON);
-}
+/** ステータス絞り込み（"" は全件、active/done はまとめ指定） */
+type StatusFilter = "" | "active" | "done" | "archived" | OrderStatus;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "", label: "すべて" },
+  { value: "active", label: "進行中のみ" },
+  ...ORDER_STATUSES.map((s) => ({ value: s, label: `${STATUS_LABELS[s]}のみ` })),
+  { value: "archived", label: "クリア済み（過去分）" },
+];
+
+/** ステータスバッジの色 */
+const STATUS_BADGE: Record<OrderStatus, string> = {
+  pending: "bg-yellow-100 border-yellow-300 text-yellow-800",
+  accepted: "bg-blue-50 border-blue-200 text-blue-700",
+  preparing: "bg-orange-50 border-orange-200 text-orange-700",
+  ready: "bg-purple-50 border-purple-200 text-purple-700",
+  served: "bg-green-50 border-green-200 text-green-700",
+  cancelled: "bg-red-50 border-red-200 text-red-700",
+};
 
-/** APIレスポンスを安全にJSON化（空や非JSONなら {} を返す） */
-async function safeJson<T = any>(res: Response): Promise<T | {}> {
-  try {
-    const ct = res.headers.get("content-type") || "";
-    if (!ct.includes("json")) return {};
-    const text = await res.text();
-    if (!text) return {};
-    return JSON.parse(text) as T;
-  } catch {
-    return {};
-  }
-}
+/** 明細の状態バッジの色（未提供は出さない） */
+const LINE_BADGE: Record<LineStatus, string> = {
+  pending: "",
+  served: "bg-green-50 border-green-200 text-green-700",
+  cancelled: "bg-red-50 border-red-200 text-red-700",
+};
+
+/** カードの「次へ」ボタン（既定の流れ。ルール外なら API が 409 を返す） */
+const NEXT_ACTION: Partial<Record<OrderStatus, { to: OrderStatus; label: string }>> = {
+  pending: { to: "accepted", label: "👌 受付" },
+  accepted: { to: "preparing", label: "🍳 調理開始" },
+  preparing: { to: "ready", label: "🔔 提供可" },
+  ready: { to: "served", label: "✅ 提供済" },
+};
+
+/** 印刷キューの1件（カードの印刷パネル用） */
+type PrintJobRow = Omit<PrintJob, "doc">;
+
+const PRINT_STATUS: Record<PrintJobStatus, { label: string; className: string }> = {
+  queued: { label: "待機中", className: "text-gray-600" },
+  printing: { label: "印刷中", className: "text-blue-700" },
+  printed: { label: "印刷済", className: "text-green-700" },
+  failed: { label: "失敗", className: "text-red-700" },
+};
+
+/** テーブル絞り込み用 */
+type TableOption = { id: string; code: string; label: string };
+
+/** 1ページの件数（「さらに読み込む」で続きを取得） */
+const PAGE_SIZE = 50;
 
 export default function AdminPage() {
   const router = useRouter();
@@ -59,7 +129,22 @@ export default function AdminPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [pendingCount, setPendingCount] = useState(0);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("");
+  const [tableFilter, setTableFilter] = useState("");
+  const [tables, setTables] = useState<TableOption[]>([]);
+  const [search, setSearch] = useState<OrderSearch>(EMPTY_SEARCH);
+  const [menuItems, setMenuItems] = useState<{ id: string; name: string }[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // ログイン中のスタッフと権限（共有端末ならロック状態も）
+  const kiosk = useKiosk();
+  const { me, allowed } = kiosk;
+  // SSE がつながっているか（つながっている間はポーリングしない）
+  const [streamLive, setStreamLive] = useState(false);
+  const lastEventId = useRef<string | null>(null);
+  // 差分同期の起点（GET /api/orders の cursor）と直近の ETag
+  const syncCursor = useRef<string | null>(null);
+  const lastEtag = useRef<{ url: string; etag: string } | null>(null);
 
   // ===== 通知関連 =====
   const audioRef = useRef<HTMLAudioElement | null>(null); // 新規入荷ピロン音（音ON時のみ鳴る）
@@ -109,15 +194,68 @@ export default function AdminPage() {
      - フィルタ付きで取得
      - 未処理IDの差分で“新着”を検知
   ========================== */
-  async function fetchList() {
+  /** 一覧の絞り込み条件（差分以外の取得で使う） */
+  function listParams(offset = 0) {
+    const q = new URLSearchParams();
+    if (tableFilter) q.set("table", tableFilter);
+    if (statusFilter === "archived") q.set("archived", "only");
+    else if (statusFilter) q.set("status", statusFilter);
+    if (search.q) q.set("q", search.q);
+    if (search.from) q.set("from", search.from);
+    if (search.to) q.set("to", search.to);
+    if (search.item) q.set("item", search.item);
+    if (search.sort !== EMPTY_SEARCH.sort) q.set("sort", search.sort);
+    q.set("limit", String(PAGE_SIZE));
+    if (offset > 0) q.set("offset", String(offset));
+    return q;
+  }
+
+  async function fetchList(full = false) {
     try {
-      const q = new URLSearchParams();
-      if (statusFilter) q.set("status", statusFilter);
-      const res = await fetch(`/api/orders?${q.toString()}`, { credentials: "include" });
+      // 2回目以降は前回からの差分だけ（304 なら変化なし）
+      const since = full ? null : syncCursor.current;
+      const q = since ? new URLSearchParams({ updated_since: since }) : listParams();
+      if (since && tableFilter) q.set("table", tableFilter);
+      const url = `/api/orders?${q.toString()}`;
+      const res = await fetch(url, {
+        credentials: "include",
+        cache: "no-store",
+        headers: lastEtag.current?.url === url ? { "If-None-Match": lastEtag.current.etag } : undefined,
+      });
+      if (res.status === 401) {
+        // セッション切れ（無操作タイムアウト等）はログインへ
+        router.replace("/admin/login");
+        return;
+      }
+      if (res.status === 304) {
+        setError(null);
+        return;
+      }
       const json = (await safeJson<ListResp>(res)) as Partial<ListResp>;
       if (!res.ok || json?.ok === false) {
         throw new Error(json?.error || `一覧の取得に失敗しました（HTTP ${res.status}）`);
       }
+      const etag = res.headers.get("etag");
+      lastEtag.current = etag ? { url, etag } : null;
+
+      if (json.delta) {
+        // 差分が多すぎるときは全件を取り直す
+        if (json.truncated) {
+          syncCursor.current = null;
+          await fetchList(true);
+          return;
+        }
+        const changed = json.items || [];
+        const newIds = changed
+          .filter((o) => o.status === "pending" && !knownPendingIds.current.has(o.id))
+          .filter((o) => since !== null && Date.parse(o.created_at) > Date.parse(since))
+          .map((o) => o.id);
+        mergeOrders(changed, json.deleted_ids ?? [], newIds);
+        if (json.pending_count != null) setPendingCount(json.pending_count);
+        syncCursor.current = json.cursor ?? since;
+        setError(null);
+        return;
+      }
 
       const items = json.items || [];
       const currentPending = items.filter((o) => o.status === "pending");
@@ -137,7 +275,9 @@ export default function AdminPage() {
       }
 
       setOrders(items);
+      setTotalCount(json.total_count ?? items.length);
       setPendingCount(json.pending_count ?? currentPending.length);
+      syncCursor.current = json.cursor ?? null;
       setError(null);
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
@@ -147,8 +287,99 @@ export default function AdminPage() {
     }
   }
 
+  /** 続きのページを取得して末尾に足す */
+  async function loadMore() {
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/orders?${listParams(orders.length).toString()}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const json = (await safeJson<ListResp>(res)) as Partial<ListResp>;
+      if (!res.ok || json?.ok === false) {
+        throw new Error(json?.error || `一覧の取得に失敗しました（HTTP ${res.status}）`);
+      }
+      const more = json.items || [];
+      setOrders((cur) => {
+        const seen = new Set(cur.map((o) => o.id));
+        return [...cur, ...more.filter((o) => !seen.has(o.id))];
+      });
+      setTotalCount(json.total_count ?? totalCount);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      alert(msg || "一覧の取得に失敗しました");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  /** 今の絞り込みに入る注文か（ストリームで届いた注文の出し入れ用。条件は GET /api/orders と同じ） */
+  function matchesFilter(o: Order) {
+    if (tableFilter && o.table_id !== tableFilter) return false;
+    const query = {
+      terms: searchTerms(search.q),
+      from: rangeBoundary(search.from, "from"),
+      to: rangeBoundary(search.to, "to"),
+      item: search.item || null,
+    };
+    if (!orderMatchesQuery(o, query)) return false;
+    if (statusFilter === "archived") return Boolean(o.cleared_at);
+    if (o.cleared_at) return false;
+    if (statusFilter === "active") return isActiveStatus(o.status);
+    if (statusFilter === "done") return !isActiveStatus(o.status);
+    if (statusFilter) return o.status === statusFilter;
+    return true;
+  }
+
+  /**
+   * 変わった注文を一覧に反映（差分同期・ストリーム共通）。
+   * 今の絞り込みから外れたもの・削除されたものは除き、notifyIds は新着として通知する。
+   */
+  function mergeOrders(changed: Order[], removedIds: string[] = [], notifyIds: string[] = []) {
+    for (const o of changed) {
+      if (o.status === "pending") knownPendingIds.current.add(o.id);
+      else knownPendingIds.current.delete(o.id);
+    }
+    if (notifyIds.length > 0) triggerNotify(notifyIds);
+
+    const keep = new Map(changed.filter(matchesFilter).map((o) => [o.id, o]));
+    const gone = new Set([...removedIds, ...changed.filter((o) => !keep.has(o.id)).map((o) => o.id)]);
+    setOrders((cur) => {
+      const next = cur.filter((o) => !gone.has(o.id)).map((o) => keep.get(o.id) ?? o);
+      const present = new Set(next.map((o) => o.id));
+      const added = Array.from(keep.values()).filter((o) => !present.has(o.id));
+      if (added.length === 0) return next;
+      return [...added, ...next].sort(compareOrders);
+    });
+  }
+
+  /** 今の並び順（サーバの ORDER_SORTS と同じ） */
+  function compareOrders(a: Order, b: Order) {
+    const { column, ascending } = ORDER_SORTS[search.sort];
+    const va = column === "total" ? a.total ?? 0 : Date.parse(a.created_at);
+    const vb = column === "total" ? b.total ?? 0 : Date.parse(b.created_at);
+    return ascending ? va - vb : vb - va;
+  }
+
+  /** ストリームの 1 件を一覧に反映 */
+  function applyStreamEvent(ev: StreamEvent) {
+    const order = ev.order as Order | null;
+    if (ev.op === "delete" || !order) {
+      mergeOrders([], [ev.order_id]);
+      return;
+    }
+    const isNew = ev.op === "insert" && order.status === "pending" && !knownPendingIds.current.has(order.id);
+    mergeOrders([order], [], isNew ? [order.id] : []);
+  }
+  // EventSource のハンドラから常に最新の state/絞り込みで呼ぶ
+  const onStreamEvent = useRef(applyStreamEvent);
+  onStreamEvent.current = applyStreamEvent;
+  const onStreamReset = useRef(() => fetchList(true));
+  onStreamReset.current = () => fetchList(true);
+
   /** ステータス更新（楽観更新→失敗時ロールバック） */
   async function updateStatus(id: string, status: Order["status"]) {
+    if (!(await kiosk.ensureUnlocked())) return;
     const prev = orders;
     setOrders((cur) => cur.map((o) => (o.id === id ? { ...o, status } : o)));
     try {
@@ -163,6 +394,7 @@ export default function AdminPage() {
         throw new Error(json?.error || `更新に失敗しました（HTTP ${res.status}）`);
       }
       fetchList();
+      kiosk.touched();
     } catch (e: unknown) {
       setOrders(prev); // 失敗したら元に戻す
       const msg = e instanceof Error ? e.message : String(e);
@@ -170,6 +402,107 @@ export default function AdminPage() {
     }
   }
 
+  /** 明細1行の提供・取消（取消は理由を聞く） */
+  async function updateLine(order: Order, index: number, status: LineStatus) {
+    if (!(await kiosk.ensureUnlocked())) return;
+    let reason: string | undefined;
+    if (status === "cancelled") {
+      const input = prompt(`「${order.items[index]?.name}」を取り消します。理由を入力してください`);
+      if (input === null) return;
+      if (!input.trim()) {
+        alert("取消には理由が必要です");
+        return;
+      }
+      reason = input.trim();
+    }
+    try {
+      const res = await fetch(`/api/orders/${order.id}/items/${index}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ status, reason }),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `更新に失敗しました（HTTP ${res.status}）`);
+      }
+      fetchList();
+      kiosk.touched();
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      alert(msg || "更新に失敗しました");
+    }
+  }
+
+  /** メモ編集（履歴に残る） */
+  async function editNote(order: Order) {
+    if (!(await kiosk.ensureUnlocked())) return;
+    const note = prompt("メモを入力してください（空欄で削除）", order.note ?? "");
+    if (note === null) return;
+    try {
+      const res = await fetch(`/api/orders/${order.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ note }),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `更新に失敗しました（HTTP ${res.status}）`);
+      }
+      fetchList();
+      kiosk.touched();
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      alert(msg || "更新に失敗しました");
+    }
+  }
+
+  /** プリンタで刷り直す（伝票とレシート）。積めたら true */
+  async function reprint(order: Order) {
+    if (!(await kiosk.ensureUnlocked())) return false;
+    try {
+      const res = await fetch(`/api/orders/${order.id}/print`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({}),
+      });
+      const json = await safeJson<{ ok: boolean; queued: number; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `印刷に失敗しました（HTTP ${res.status}）`);
+      }
+      kiosk.touched();
+      if (!json.queued) {
+        alert("プリンタが設定されていません。「ブラウザで印刷」を使ってください");
+        return false;
+      }
+      return true;
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      alert(msg || "印刷に失敗しました");
+      return false;
+    }
+  }
+
+  /** 失敗した印刷を送り直す */
+  async function retryPrint(jobId: number) {
+    if (!(await kiosk.ensureUnlocked())) return false;
+    try {
+      const res = await fetch(`/api/admin/print-jobs/${jobId}`, { method: "POST", credentials: "include" });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `再試行に失敗しました（HTTP ${res.status}）`);
+      }
+      kiosk.touched();
+      return true;
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      alert(msg || "再試行に失敗しました");
+      return false;
+    }
+  }
+
   /** ログアウトしてログイン画面へ */
   async function logout() {
     await fetch("/api/admin/logout", { method: "POST", credentials: "include" });
@@ -187,6 +520,7 @@ export default function AdminPage() {
 
   /** STOPトグル（POST） */
   async function toggleStop() {
+    if (!(await kiosk.ensureUnlocked())) return;
     try {
       const next = !isStopped;
       const r = await fetch("/api/admin/stop", {
@@ -197,13 +531,20 @@ export default function AdminPage() {
       });
       const j = (await safeJson(r)) as any;
       if (j?.ok) setIsStopped(!!j.stopped);
+      else if (j?.error) alert(j.error);
+      kiosk.touched();
     } catch (e) {
       console.error(e);
       alert("切り替えに失敗しました");
     }
   }
 
-  /** 処理済み（完了/キャンセル）だけを全削除 */
+  /** 処理済みクリアの確認を開く（共有端末のロック中は先に PIN） */
+  async function openConfirm() {
+    if (await kiosk.ensureUnlocked()) setConfirmOpen(true);
+  }
+
+  /** 処理済み（提供済/キャンセル）をボードから片付ける（アーカイブ。売上記録は残る） */
   async function execResetProcessedOnly() {
     setConfirmBusy(true);
     try {
@@ -212,10 +553,11 @@ export default function AdminPage() {
       if (!r.ok || j?.ok === false) {
         throw new Error(j?.error || `リセットに失敗しました（HTTP ${r.status}）`);
       }
-      // 表示側は未処理だけ残す → 直後に fetchList で最新同期
-      setOrders((cur) => cur.filter((o) => o.status === "pending"));
+      // 表示側は進行中だけ残す → 直後に fetchList で最新同期
+      setOrders((cur) => cur.filter((o) => isActiveStatus(o.status)));
       setError(null);
       await fetchList();
+      kiosk.touched();
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       alert(msg || "リセットに失敗しました");
@@ -225,16 +567,86 @@ export default function AdminPage() {
     }
   }
 
+  /** テーブル一覧（絞り込み用） */
+  async function fetchTables() {
+    try {
+      const r = await fetch("/api/admin/tables", { cache: "no-store", credentials: "include" });
+      const j = await safeJson<{ ok: boolean; items: TableOption[] }>(r);
+      if (j.ok) setTables(j.items ?? []);
+    } catch {}
+  }
+
+  /** 商品一覧（商品で絞り込み用） */
+  async function fetchMenuItems() {
+    try {
+      const r = await fetch("/api/admin/menu", { cache: "no-store", credentials: "include" });
+      const j = await safeJson<{ ok: boolean; items: { id: string; name: string }[] }>(r);
+      if (j.ok) setMenuItems((j.items ?? []).map(({ id, name }) => ({ id, name })));
+    } catch {}
+  }
+
+  useEffect(() => {
+    fetchTables();
+    fetchMenuItems();
+  }, []);
+
   /* 起動時 & フィルタ変更時に一覧取得＋STOP状態同期 */
   useEffect(() => {
     setLoading(true);
-    fetchList();
+    syncCursor.current = null;
+    fetchList(true);
     fetchStopState();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [statusFilter]);
+  }, [statusFilter, tableFilter, search]);
+
+  /* 変更の受信（SSE /api/orders/stream）。切れたときはブラウザが Last-Event-ID 付きで再接続する */
+  useEffect(() => {
+    let es: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    const connect = () => {
+      const qs = lastEventId.current ? `?last_event_id=${lastEventId.current}` : "";
+      es = new EventSource(`/api/orders/stream${qs}`);
+      const remember = (ev: Event) => {
+        const id = (ev as MessageEvent).lastEventId;
+        if (id) lastEventId.current = id;
+      };
+      es.addEventListener("hello", (ev) => {
+        remember(ev);
+        setStreamLive(true);
+      });
+      es.addEventListener("order", (ev) => {
+        remember(ev);
+        try {
+          onStreamEvent.current(JSON.parse((ev as MessageEvent).data) as StreamEvent);
+        } catch {}
+      });
+      es.addEventListener("pending", (ev) => {
+        try {
+          setPendingCount(JSON.parse((ev as MessageEvent).data).pending_count ?? 0);
+        } catch {}
+      });
+      es.addEventListener("reset", (ev) => {
+        remember(ev);
+        onStreamReset.current();
+      });
+      es.addEventListener("error", () => {
+        setStreamLive(false);
+        // 401 等で閉じられたら少し待ってから張り直す（その間はポーリング）
+        if (es?.readyState === EventSource.CLOSED) {
+          retryTimer = setTimeout(connect, 15_000);
+        }
+      });
+    };
+    connect();
+    return () => {
+      es?.close();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, []);
 
-  /* ポーリング：前面5秒/バックグラウンド60秒 */
+  /* ストリームが切れている間だけポーリング：前面5秒/バックグラウンド60秒 */
   useEffect(() => {
+    if (streamLive) return;
     let timer: ReturnType<typeof setInterval> | null = null;
     const schedule = (ms: number) => {
       if (timer) clearInterval(timer);
@@ -254,35 +666,16 @@ export default function AdminPage() {
       if (timer) clearInterval(timer);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [statusFilter]);
-
-  /* Realtime(Supabase) : INSERT/UPDATE で最大1秒間隔の再取得 */
-  useEffect(() => {
-    if (!supabase) return;
-    let last = 0;
-    const trigger = () => {
-      const now = Date.now();
-      if (now - last > 1000) {
-        last = now;
-        fetchList();
-      }
-    };
-    const ch = supabase
-      .channel("orders-realtime")
-      .on("postgres_changes", { event: "INSERT", schema: "public", table: "orders" }, trigger)
-      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "orders" }, trigger)
-      .subscribe();
-    return () => {
-      supabase?.removeChannel(ch);
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [statusFilter]);
+  }, [streamLive, statusFilter, tableFilter, search]);
 
-  /** 表示用：未処理/処理済みの2群に分割 */
+  /** 表示用：進行中は段（ステータス）ごと、処理済みはまとめて */
   const grouped = useMemo(() => {
-    const pending = orders.filter((o) => o.status === "pending");
-    const done = orders.filter((o) => o.status !== "pending");
-    return { pending, done };
+    const stages = ACTIVE_STATUSES.map((status) => ({
+      status,
+      orders: orders.filter((o) => o.status === status),
+    }));
+    const done = orders.filter((o) => !isActiveStatus(o.status));
+    return { stages, active: stages.reduce((n, s) => n + s.orders.length, 0), done };
   }, [orders]);
 
   /** ヘッダーの音ON/OFF */
@@ -333,25 +726,28 @@ export default function AdminPage() {
                 🔔 {soundEnabled ? "音 ON" : "音 OFF"}
               </button>
 
-              {/* 注文受付 STOP/再開 */}
+              {/* 注文受付 STOP/再開（状態は誰でも見られる。切り替えは権限のある役割だけ） */}
               <button
                 onClick={toggleStop}
-                className={`rounded-lg px-3 py-1.5 text-sm border ${
+                disabled={!allowed("toggle_stop")}
+                className={`rounded-lg px-3 py-1.5 text-sm border disabled:cursor-not-allowed ${
                   isStopped ? "bg-red-600 text-white border-red-600" : "bg-white"
                 }`}
-                title="注文の受付を停止/再開します"
+                title={allowed("toggle_stop") ? "注文の受付を停止/再開します" : "店長以上が切り替えられます"}
               >
                 {isStopped ? "⛔ 注文STOP中" : "▶︎ 注文受付中"}
               </button>
 
               {/* 処理済みクリア（確認モーダル表示） */}
-              <button
-                onClick={() => setConfirmOpen(true)}
-                className="rounded-lg border px-3 py-1.5 text-sm"
-                title="処理済み（完了/キャンセル）を全て削除"
-              >
-                処理済みクリア
-              </button>
+              {allowed("clear_orders") && (
+                <button
+                  onClick={openConfirm}
+                  className="rounded-lg border px-3 py-1.5 text-sm"
+                  title="処理済み（提供済/キャンセル）をボードから片付けます"
+                >
+                  処理済みクリア
+                </button>
+              )}
 
               {/* ステータスフィルタ */}
               <div className="relative">
@@ -362,10 +758,11 @@ export default function AdminPage() {
                     setStatusFilter(e.target.value as StatusFilter)
                   }
                 >
-                  <option value="">すべて</option>
-                  <option value="pending">未処理のみ</option>
-                  <option value="completed">完了のみ</option>
-                  <option value="cancelled">キャンセルのみ</option>
+                  {STATUS_FILTERS.map((f) => (
+                    <option key={f.value} value={f.value}>
+                      {f.label}
+                    </option>
+                  ))}
                 </select>
                 {/* ▼ 矢印（SVG）。クリックはselectに届くように pointer-events-none */}
                 <span className="pointer-events-none absolute inset-y-0 right-2 flex items-center text-gray-700">
@@ -376,17 +773,33 @@ export default function AdminPage() {
               </div>
 
 
-              <button onClick={fetchList} className="rounded-lg border px-3 py-1.5 text-sm" title="更新">
+              {/* CSV / Excel 出力（共有端末では出さない） */}
+              {!kiosk.isDevice && <ExportMenu />}
+
+              <button onClick={() => fetchList(true)} className="rounded-lg border px-3 py-1.5 text-sm" title="更新">
                 更新
               </button>
 
-              <button
-                onClick={logout}
-                className="rounded-lg bg-gray-900 text-white px-3 py-1.5 text-sm"
-                title="ログアウト"
-              >
-                ログアウト
-              </button>
+              {kiosk.isDevice ? (
+                <KioskBar kiosk={kiosk} />
+              ) : (
+                <>
+                  {me?.staff && (
+                    <span className="text-sm text-gray-700 whitespace-nowrap">
+                      {me.staff.name}
+                      <span className="ml-1 text-xs text-gray-500">（{me.staff.role_label}）</span>
+                    </span>
+                  )}
+
+                  <button
+                    onClick={logout}
+                    className="rounded-lg bg-gray-900 text-white px-3 py-1.5 text-sm"
+                    title="ログアウト"
+                  >
+                    ログアウト
+                  </button>
+                </>
+              )}
             </div>
           </div>
 
@@ -405,20 +818,22 @@ export default function AdminPage() {
 
             <button
               onClick={toggleStop}
+              disabled={!allowed("toggle_stop")}
               className={`min-w-0 w-full rounded-lg px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium border whitespace-nowrap ${
                 isStopped ? "bg-red-600 text-white border-red-600" : "bg-white text-gray-900"
               }`}
-              title="注文の受付を停止/再開します"
+              title={allowed("toggle_stop") ? "注文の受付を停止/再開します" : "店長以上が切り替えられます"}
             >
               {isStopped ? "⛔ 停止中" : "▶︎ 注文受付"}
             </button>
 
             <button
-              onClick={() => setConfirmOpen(true)}
-              className="min-w-0 w-full rounded-lg border px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium bg-white text-gray-900 whitespace-nowrap"
-              title="処理済み（完了/キャンセル）を全て削除"
+              onClick={openConfirm}
+              disabled={!allowed("clear_orders")}
+              className="min-w-0 w-full rounded-lg border px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium bg-white text-gray-900 whitespace-nowrap disabled:opacity-50"
+              title="処理済み（提供済/キャンセル）をボードから片付けます"
             >
-              処理済み削除
+              処理済みクリア
             </button>
           </div>
 
@@ -432,10 +847,11 @@ export default function AdminPage() {
                   setStatusFilter(e.target.value as StatusFilter)
                 }
               >
-                <option value="">すべて</option>
-                <option value="pending">未処理のみ</option>
-                <option value="completed">完了のみ</option>
-                <option value="cancelled">キャンセルのみ</option>
+                {STATUS_FILTERS.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
               </select>
               <span className="pointer-events-none absolute inset-y-0 right-2 flex items-center text-gray-700">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -446,21 +862,97 @@ export default function AdminPage() {
 
 
             <button
-              onClick={fetchList}
+              onClick={() => fetchList(true)}
               className="min-w-0 w-full rounded-lg border px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium bg-white text-gray-900 whitespace-nowrap"
               title="更新"
             >
               更新
             </button>
 
-            <button
-              onClick={logout}
-              className="min-w-0 w-full rounded-lg bg-gray-900 text-white px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium whitespace-nowrap"
-              title="ログアウト"
-            >
-              ログアウト
-            </button>
+            {kiosk.isDevice ? (
+              <button
+                onClick={() => (kiosk.unlocked ? kiosk.lock() : kiosk.askPin())}
+                className="min-w-0 w-full rounded-lg bg-gray-900 text-white px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium whitespace-nowrap"
+                title={kiosk.unlocked ? "ロック" : "担当者を選ぶ"}
+              >
+                {kiosk.unlocked ? "🔒 ロック" : "🔒 ロック中"}
+              </button>
+            ) : (
+              <button
+                onClick={logout}
+                className="min-w-0 w-full rounded-lg bg-gray-900 text-white px-2 py-2 text-[clamp(11px,3.2vw,13px)] leading-5 font-medium whitespace-nowrap"
+                title="ログアウト"
+              >
+                ログアウト
+              </button>
+            )}
           </div>
+
+          {/* 共有端末：担当者の表示・切替（スマホ） */}
+          {kiosk.isDevice && (
+            <div className="mt-2 md:hidden">
+              <KioskBar kiosk={kiosk} />
+            </div>
+          )}
+
+          {/* 管理サブページへのリンク */}
+          {/* 共有端末ではキッチン表示だけ（設定系の画面は個人ログインで開く） */}
+          <nav className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+            {!kiosk.isDevice && (
+              <>
+                <Link href="/admin/menu" className="underline-offset-4 hover:underline">
+                  メニュー・売り切れ
+                </Link>
+                <Link href="/admin/tables" className="underline-offset-4 hover:underline">
+                  テーブル
+                </Link>
+              </>
+            )}
+            <Link href="/admin/kitchen" className="underline-offset-4 hover:underline">
+              キッチン
+            </Link>
+            {!kiosk.isDevice && (
+              <>
+                <Link href="/admin/reports" className="underline-offset-4 hover:underline">
+                  売上レポート
+                </Link>
+                <Link href="/admin/printing" className="underline-offset-4 hover:underline">
+                  印刷
+                </Link>
+                {allowed("manage_staff") && (
+                  <Link href="/admin/staff" className="underline-offset-4 hover:underline">
+                    スタッフ
+                  </Link>
+                )}
+                {allowed("manage_webhooks") && (
+                  <Link href="/admin/webhooks" className="underline-offset-4 hover:underline">
+                    外部連携
+                  </Link>
+                )}
+                <ExportMenu className="md:hidden" />
+              </>
+            )}
+
+            {/* テーブル絞り込み */}
+            {tables.length > 0 && (
+              <select
+                className="ml-auto rounded-lg border px-2 py-1 text-sm bg-white text-gray-900"
+                value={tableFilter}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTableFilter(e.target.value)}
+                aria-label="テーブルで絞り込み"
+              >
+                <option value="">全テーブル</option>
+                {tables.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.code} {t.label !== t.code ? `（${t.label}）` : ""}
+                  </option>
+                ))}
+              </select>
+            )}
+          </nav>
+
+          {/* 検索・期間・商品・並び順 */}
+          <OrderSearchBar value={search} onChange={setSearch} menuItems={menuItems} />
         </div>
       </header>
 
@@ -475,16 +967,40 @@ export default function AdminPage() {
           <p className="text-sm text-gray-500">読み込み中…</p>
         ) : (
           <>
-            {grouped.pending.length > 0 && (
-              <>
-                {/* 見出しはモバイル少し大きく＆濃色 */}
-                <h2 className="mb-2 text-base md:text-sm font-semibold text-gray-900">未処理</h2>
-                <ul className="mb-6 grid gap-3">
-                  {grouped.pending.map((o) => (
-                    <OrderCard key={o.id} order={o} onUpdate={updateStatus} buzzing={buzzIds.has(o.id)} />
+            {/* 進行中：段ごとの列（PCは2列×2段、スマホは縦並び） */}
+            {grouped.active > 0 && (
+              <div className="mb-6 grid gap-4 md:grid-cols-2">
+                {grouped.stages
+                  .filter((st) => st.orders.length > 0)
+                  .map((st) => (
+                    <section key={st.status}>
+                      {/* 見出しはモバイル少し大きく＆濃色 */}
+                      <h2 className="mb-2 flex items-center gap-2 text-base md:text-sm font-semibold text-gray-900">
+                        {STATUS_LABELS[st.status]}
+                        <span
+                          className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs tabular-nums ${STATUS_BADGE[st.status]}`}
+                        >
+                          {st.orders.length}
+                        </span>
+                      </h2>
+                      <ul className="grid gap-3">
+                        {st.orders.map((o) => (
+                          <OrderCard
+                            key={o.id}
+                            order={o}
+                            onUpdate={updateStatus}
+                            onUpdateLine={updateLine}
+                            onEditNote={editNote}
+                            onReprint={reprint}
+                            onRetryPrint={retryPrint}
+                            canCancel={allowed("cancel_order")}
+                            buzzing={buzzIds.has(o.id)}
+                          />
+                        ))}
+                      </ul>
+                    </section>
                   ))}
-                </ul>
-              </>
+              </div>
             )}
 
             {grouped.done.length > 0 && (
@@ -492,15 +1008,38 @@ export default function AdminPage() {
                 <h2 className="mb-2 text-base md:text-sm font-semibold text-gray-900">処理済み</h2>
                 <ul className="grid gap-3">
                   {grouped.done.map((o) => (
-                    <OrderCard key={o.id} order={o} onUpdate={updateStatus} buzzing={false} />
+                    <OrderCard
+                      key={o.id}
+                      order={o}
+                      onUpdate={updateStatus}
+                      onUpdateLine={updateLine}
+                      onEditNote={editNote}
+                      onReprint={reprint}
+                      onRetryPrint={retryPrint}
+                      canCancel={allowed("cancel_order")}
+                      buzzing={false}
+                    />
                   ))}
                 </ul>
               </>
             )}
 
-            {grouped.pending.length === 0 && grouped.done.length === 0 && (
+            {grouped.active === 0 && grouped.done.length === 0 && (
               <p className="text-sm text-gray-500">注文はまだありません。</p>
             )}
+
+            {/* ページ送り（limit 上限があるので続きは追加取得） */}
+            {orders.length < totalCount && (
+              <div className="mt-6 flex justify-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="rounded-xl border bg-white px-4 py-2 text-sm text-gray-900 disabled:opacity-60"
+                >
+                  {loadingMore ? "読み込み中…" : `さらに読み込む（残り ${totalCount - orders.length} 件）`}
+                </button>
+              </div>
+            )}
           </>
         )}
       </main>
@@ -515,11 +1054,11 @@ export default function AdminPage() {
             className="w-full max-w-sm md:max-w-md rounded-2xl bg-white p-4 md:p-5 shadow-2xl"
           >
             <h3 id="confirm-title" className="text-base md:text-lg font-semibold text-gray-900 mb-2">
-              処理済みの注文を削除しますか？
+              処理済みの注文をクリアしますか？
             </h3>
 
             <p className="text-sm md:text-[15px] text-gray-700 mb-4 leading-6 break-words">
-              「完了」と「キャンセル」の注文をすべて削除します。未処理の注文は残ります。
+              「提供済」と「キャンセル」の注文をボードから片付けます。進行中の注文は残ります。売上の記録は残り、「クリア済み」で後から確認できます。
             </p>
 
             <div className="grid grid-cols-2 gap-2">
@@ -536,12 +1075,15 @@ export default function AdminPage() {
                 onClick={execResetProcessedOnly}
                 className="rounded-lg bg-red-600 text-white px-3 py-2 text-sm md:text-base font-medium disabled:opacity-60"
               >
-                {confirmBusy ? "削除中…" : "はい、削除する"}
+                {confirmBusy ? "クリア中…" : "はい、クリアする"}
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* 共有端末：担当者の PIN 入力 */}
+      <KioskPinDialog kiosk={kiosk} />
     </div>
   );
 }
@@ -554,13 +1096,74 @@ export default function AdminPage() {
 function OrderCard({
   order,
   onUpdate,
+  onUpdateLine,
+  onEditNote,
+  onReprint,
+  onRetryPrint,
+  canCancel,
   buzzing,
 }: {
   order: Order;
   onUpdate: (id: string, status: Order["status"]) => void;
+  onUpdateLine: (order: Order, index: number, status: LineStatus) => void;
+  onEditNote: (order: Order) => void;
+  onReprint: (order: Order) => Promise<boolean>;
+  onRetryPrint: (jobId: number) => Promise<boolean>;
+  /** キャンセル（注文・明細）ができる役割か */
+  canCancel: boolean;
   buzzing: boolean;
 }) {
-  const isDone = order.status !== "pending";
+  const isDone = !isActiveStatus(order.status);
+  const next = NEXT_ACTION[order.status];
+
+  // 履歴（開いたときだけ取得。開き直すたびに最新化）
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [events, setEvents] = useState<OrderEvent[] | null>(null);
+  async function toggleHistory() {
+    const open = !historyOpen;
+    setHistoryOpen(open);
+    if (!open) return;
+    setEvents(null);
+    try {
+      const res = await fetch(`/api/orders/${order.id}/events`, { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: OrderEvent[] }>(res);
+      setEvents(json.items ?? []);
+    } catch {
+      setEvents([]);
+    }
+  }
+
+  // 印刷パネル（この注文の印刷キューの状態。開いたときだけ取得）
+  const [printOpen, setPrintOpen] = useState(false);
+  const [printJobs, setPrintJobs] = useState<PrintJobRow[] | null>(null);
+  async function fetchPrintJobs() {
+    try {
+      const res = await fetch(`/api/orders/${order.id}/print`, { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; jobs: PrintJobRow[] }>(res);
+      setPrintJobs(json.jobs ?? []);
+    } catch {
+      setPrintJobs([]);
+    }
+  }
+  function togglePrint() {
+    const open = !printOpen;
+    setPrintOpen(open);
+    if (open) {
+      setPrintJobs(null);
+      fetchPrintJobs();
+    }
+  }
+
+  // 各段の時刻（記録のあるものだけ）
+  const stageTimes = (
+    [
+      ["受付", order.accepted_at],
+      ["調理", order.preparing_at],
+      ["提供可", order.ready_at],
+      ["提供済", order.served_at],
+      ["取消", order.cancelled_at],
+    ] as const
+  ).filter(([, t]) => !!t);
 
   // 経過秒を1秒ごとに更新（created_at 起点）
   const [elapsed, setElapsed] = useState(0);
@@ -619,20 +1222,28 @@ function OrderCard({
       <audio ref={kfAudioRef} src="/KF4.mp3" preload="auto" loop />
 
       <div className="flex items-center gap-2">
+        {/* テーブル（QR から特定）を大きく表示 */}
+        {order.table_label && (
+          <span className="inline-flex items-center rounded-lg bg-gray-900 text-white px-2.5 py-0.5 text-base font-bold">
+            {order.table_label}
+          </span>
+        )}
+        {order.ticket_no != null && (
+          <span className="text-lg font-bold tabular-nums text-gray-900">#{order.ticket_no}</span>
+        )}
         <span className="text-xs text-gray-500">{order.order_no}</span>
 
-        {/* ステータスバッジ（未処理は少し濃い黄） */}
+        {/* ステータスバッジ（段ごとに色分け） */}
         <span
-          className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs border ${
-            order.status === "pending"
-              ? "bg-yellow-100 border-yellow-300 text-yellow-800"
-              : order.status === "completed"
-              ? "bg-green-50 border-green-200 text-green-700"
-              : "bg-red-50 border-red-200 text-red-700"
-          }`}
+          className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs border ${STATUS_BADGE[order.status]}`}
         >
-          {order.status === "pending" ? "未処理" : order.status === "completed" ? "完了" : "キャンセル"}
+          {STATUS_LABELS[order.status]}
         </span>
+        {order.cleared_at && (
+          <span className="inline-flex items-center rounded-full border border-gray-300 bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+            クリア済
+          </span>
+        )}
 
         <span className="ml-auto text-xs text-gray-400">
           {new Date(order.created_at).toLocaleString()}
@@ -640,31 +1251,242 @@ function OrderCard({
       </div>
 
       <ul className="mt-2 text-sm text-gray-800 list-disc pl-5">
-        {order.items.map((it, idx) => (
-          <li key={idx}>
-            {it.name} × {it.qty}
-          </li>
-        ))}
+        {order.items.map((it, idx) => {
+          const lineStatus = lineStatusOf(it);
+          return (
+            <li key={idx} className={lineStatus === "cancelled" ? "text-gray-400" : ""}>
+              <div className="flex flex-wrap items-center gap-x-2">
+                <span className={lineStatus === "cancelled" ? "line-through" : ""}>
+                  {it.name}
+                  {it.options && it.options.length > 0 && (
+                    <span className="text-gray-500">（{it.options.map((o) => o.name).join("・")}）</span>
+                  )}{" "}
+                  × {it.qty}
+                  {it.price != null && (
+                    <span className="ml-2 text-gray-500 tabular-nums">¥{(it.price * it.qty).toLocaleString()}</span>
+                  )}
+                </span>
+                {lineStatus !== "pending" && (
+                  <span className={`rounded-full border px-1.5 text-[11px] ${LINE_BADGE[lineStatus]}`}>
+                    {LINE_STATUS_LABELS[lineStatus]}
+                  </span>
+                )}
+                {/* 明細単位の提供・取消（進行中の注文で、明細が複数のときだけ） */}
+                {!isDone && lineStatus === "pending" && order.items.length > 1 && (
+                  <span className="ml-auto flex gap-1">
+                    <button
+                      className="rounded-lg border border-green-600 px-2 py-0.5 text-xs text-green-700"
+                      onClick={() => onUpdateLine(order, idx, "served")}
+                    >
+                      提供
+                    </button>
+                    {canCancel && (
+                      <button
+                        className="rounded-lg border border-red-300 px-2 py-0.5 text-xs text-red-600"
+                        onClick={() => onUpdateLine(order, idx, "cancelled")}
+                      >
+                        取消
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+              {lineStatus === "cancelled" && it.cancel_reason && (
+                <p className="text-xs text-gray-400">理由：{it.cancel_reason}</p>
+              )}
+            </li>
+          );
+        })}
       </ul>
 
+      {/* 会計金額（サーバ計算値）。税率ごとの内訳も表示 */}
+      {order.total != null && (
+        <div className="mt-2 flex flex-wrap items-baseline gap-x-3 text-sm text-gray-700">
+          <span className="text-base font-semibold text-gray-900 tabular-nums">
+            合計 ¥{order.total.toLocaleString()}
+          </span>
+          {(order.tax_breakdown ?? []).map((b) => (
+            <span key={b.rate} className="text-xs text-gray-500 tabular-nums">
+              {b.rate}%対象 ¥{(b.subtotal + b.tax).toLocaleString()}（税 ¥{b.tax.toLocaleString()}）
+            </span>
+          ))}
+        </div>
+      )}
+
       {order.note && <p className="mt-1 text-sm text-gray-500">メモ：{order.note}</p>}
 
-      <div className="mt-3 flex gap-2">
+      {stageTimes.length > 0 && (
+        <p className="mt-1 text-xs text-gray-400 tabular-nums">
+          {stageTimes
+            .map(([label, t]) => `${label} ${new Date(t as string).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`)
+            .join(" / ")}
+        </p>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {next && (
+          <button
+            className="rounded-xl bg-green-600 text-white px-3 py-1.5 text-sm"
+            onClick={() => onUpdate(order.id, next.to)}
+          >
+            {next.label}
+          </button>
+        )}
+        {order.status !== "served" && order.status !== "ready" && (
+          <button
+            className="rounded-xl border border-green-600 text-green-700 bg-white px-3 py-1.5 text-sm disabled:opacity-50"
+            onClick={() => onUpdate(order.id, "served")}
+            disabled={isDone}
+            title="途中の段を飛ばして提供済にします"
+          >
+            ✅ 提供済
+          </button>
+        )}
+        {canCancel && (
+          <button
+            className="rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-50"
+            onClick={() => onUpdate(order.id, "cancelled")}
+            disabled={isDone}
+          >
+            🗑 キャンセル
+          </button>
+        )}
         <button
-          className="rounded-xl bg-green-600 text-white px-3 py-1.5 text-sm disabled:opacity-50"
-          onClick={() => onUpdate(order.id, "completed")}
-          disabled={isDone}
+          className="ml-auto rounded-xl border px-3 py-1.5 text-sm text-gray-700"
+          onClick={() => onEditNote(order)}
         >
-          ✅ 完了
+          ✏️ メモ
         </button>
         <button
-          className="rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-50"
-          onClick={() => onUpdate(order.id, "cancelled")}
-          disabled={isDone}
+          className="rounded-xl border px-3 py-1.5 text-sm text-gray-700"
+          onClick={toggleHistory}
+          aria-expanded={historyOpen}
         >
-          🗑 キャンセル
+          🕒 履歴
+        </button>
+        <button
+          className="rounded-xl border px-3 py-1.5 text-sm text-gray-700"
+          onClick={togglePrint}
+          aria-expanded={printOpen}
+        >
+          🖨 印刷
         </button>
       </div>
+
+      {/* 印刷（再印刷・ブラウザ印刷・キューの状態） */}
+      {printOpen && (
+        <div className="mt-3 border-t pt-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              className="rounded-xl bg-gray-900 text-white px-3 py-1.5 text-sm"
+              onClick={async () => {
+                if (await onReprint(order)) fetchPrintJobs();
+              }}
+            >
+              プリンタで再印刷
+            </button>
+            <a
+              href={`/admin/print/${order.id}`}
+              target="_blank"
+              rel="noopener"
+              className="rounded-xl border px-3 py-1.5 text-sm text-gray-700"
+            >
+              ブラウザで印刷
+            </a>
+            <button className="ml-auto text-xs text-gray-500 underline" onClick={fetchPrintJobs}>
+              更新
+            </button>
+          </div>
+          {printJobs === null ? (
+            <p className="text-xs text-gray-500">読み込み中…</p>
+          ) : printJobs.length === 0 ? (
+            <p className="text-xs text-gray-500">プリンタへの印刷はまだありません。</p>
+          ) : (
+            <ol className="space-y-1 text-xs text-gray-700">
+              {printJobs.map((j) => (
+                <li key={j.id} className="flex flex-wrap items-center gap-2">
+                  <span className="shrink-0 text-gray-400 tabular-nums">
+                    {new Date(j.created_at).toLocaleTimeString()}
+                  </span>
+                  <span>{j.kind === "receipt" ? "レシート" : `伝票（${j.station_id ?? "持ち場なし"}）`}</span>
+                  <span className={PRINT_STATUS[j.status].className}>
+                    {PRINT_STATUS[j.status].label}
+                    {j.attempts > 1 && `（${j.attempts}回目）`}
+                  </span>
+                  {j.last_error && j.status !== "printed" && (
+                    <span className="min-w-0 break-words text-gray-500">{j.last_error}</span>
+                  )}
+                  {j.status === "failed" && (
+                    <button
+                      className="ml-auto rounded-lg border px-2 py-0.5"
+                      onClick={async () => {
+                        if (await onRetryPrint(j.id)) fetchPrintJobs();
+                      }}
+                    >
+                      再試行
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {/* 履歴タイムライン（開いたときに取得） */}
+      {historyOpen && (
+        <div className="mt-3 border-t pt-2">
+          {events === null ? (
+            <p className="text-xs text-gray-500">読み込み中…</p>
+          ) : events.length === 0 ? (
+            <p className="text-xs text-gray-500">履歴はありません。</p>
+          ) : (
+            <ol className="space-y-1 text-xs text-gray-700">
+              {events.map((ev) => (
+                <li key={ev.id} className="flex gap-2">
+                  <span className="shrink-0 text-gray-400 tabular-nums">
+                    {new Date(ev.created_at).toLocaleTimeString()}
+                  </span>
+                  <span className="min-w-0 break-words">{describeEvent(ev)}</span>
+                  <span className="ml-auto shrink-0 text-gray-400">{ev.actor_name ?? ev.actor_type}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
     </li>
   );
 }
+
+/** 履歴1行の表示文 */
+function describeEvent(ev: OrderEvent) {
+  const label = (v: unknown) => {
+    const st = (v as { status?: OrderStatus } | null)?.status;
+    return st ? STATUS_LABELS[st] ?? st : "-";
+  };
+  const note = (v: unknown) => (v as { note?: string | null } | null)?.note || "（なし）";
+  switch (ev.type) {
+    case "created":
+      return "注文受付";
+    case "status_changed":
+      return `${label(ev.old_value)} → ${label(ev.new_value)}`;
+    case "note_changed":
+      return `メモ：${note(ev.old_value)} → ${note(ev.new_value)}`;
+    case "cleared":
+      return "処理済みクリア（アーカイブ）";
+    case "deleted":
+      return `削除（${label(ev.old_value)}）`;
+    case "station_done":
+      return `持ち場完了：${(ev.new_value as { station?: string } | null)?.station ?? "-"}`;
+    case "item_changed": {
+      const line = (v: unknown) => (v ?? {}) as { name?: string; status?: LineStatus; reason?: string | null };
+      const from = line(ev.old_value).status ?? "pending";
+      const to = line(ev.new_value);
+      const reason = to.reason ? `（${to.reason}）` : "";
+      return `明細 ${to.name ?? "-"}：${LINE_STATUS_LABELS[from]} → ${to.status ? LINE_STATUS_LABELS[to.status] : "-"}${reason}`;
+    }
+    default:
+      return ev.type;
+  }
+}
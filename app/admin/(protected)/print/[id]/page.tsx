@@ -0,0 +1,77 @@
+// app/admin/(protected)/print/[id]/page.tsx
+import { notFound } from "next/navigation";
+import { loadPrintOrder, orderPrintDocs } from "@/lib/printJobs";
+import type { PrintLine } from "@/lib/printDoc";
+import AdminSubHeader from "../../_components/AdminSubHeader";
+import PrintButton from "../../_components/PrintButton";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ALIGN = { left: "text-left", center: "text-center", right: "text-right" } as const;
+
+function Line({ line }: { line: PrintLine }) {
+  if (line.type === "rule") return <hr className="my-1 border-dashed border-gray-400" />;
+  const cls = `${line.size === 2 ? "text-xl" : "text-sm"} ${line.bold ? "font-bold" : ""}`;
+  if (line.type === "row") {
+    return (
+      <p className={`flex justify-between gap-2 ${cls}`}>
+        <span className="min-w-0 break-words">{line.left}</span>
+        <span className="shrink-0 tabular-nums">{line.right}</span>
+      </p>
+    );
+  }
+  return <p className={`whitespace-pre-wrap break-words ${ALIGN[line.align ?? "left"]} ${cls}`}>{line.text}</p>;
+}
+
+/**
+ * キッチン伝票・レシートのブラウザ印刷（ネットワークプリンタがないとき・つながらないとき用）。
+ * 80mm のロール紙に 1 枚ずつ。?kind=kitchen|receipt、?station=<持ち場ID>、?unassigned=1（持ち場なしの伝票）で絞れる。
+ */
+export default async function OrderPrintPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ kind?: string; station?: string; unassigned?: string }>;
+}) {
+  const { id } = await params;
+  const { kind, station, unassigned } = await searchParams;
+
+  const order = await loadPrintOrder(id);
+  if (!order) notFound();
+  const docs = (await orderPrintDocs(order)).filter(
+    (d) =>
+      (!kind || d.kind === kind) &&
+      (!station || d.station_id === station) &&
+      (!unassigned || (d.kind === "kitchen" && d.station_id === null)),
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      {/* 用紙設定（80mm ロール紙。長さは内容に合わせる） */}
+      <style>{`@page { size: 80mm auto; margin: 3mm; }`}</style>
+
+      <AdminSubHeader title={`伝票印刷 ${order.order_no}`}>
+        <PrintButton />
+      </AdminSubHeader>
+
+      <main className="mx-auto max-w-[80mm] px-2 py-6 space-y-6 print:p-0 print:space-y-0">
+        {docs.length === 0 ? (
+          <p className="text-sm text-gray-500">印刷するものがありません。</p>
+        ) : (
+          docs.map((doc, i) => (
+            <section
+              key={i}
+              className="rounded-lg border border-gray-300 bg-white p-3 text-gray-900 shadow-sm print:rounded-none print:border-0 print:p-0 print:shadow-none print:break-after-page"
+            >
+              {doc.lines.map((line, j) => (
+                <Line key={j} line={line} />
+              ))}
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+// app/admin/(protected)/printing/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { safeJson } from "@/lib/safeJson";
+import type { PrintJob, PrintJobStatus } from "@/lib/printJobs";
+import AdminSubHeader from "../_components/AdminSubHeader";
+
+type Job = Omit<PrintJob, "doc">;
+
+const STATUS_LABELS: Record<PrintJobStatus, { label: string; className: string }> = {
+  queued: { label: "待機中", className: "border-gray-300 bg-gray-100 text-gray-700" },
+  printing: { label: "印刷中", className: "border-blue-200 bg-blue-50 text-blue-700" },
+  printed: { label: "印刷済", className: "border-green-200 bg-green-50 text-green-700" },
+  failed: { label: "失敗", className: "border-red-200 bg-red-50 text-red-700" },
+};
+
+/** ブラウザ印刷で同じ伝票・レシートだけを出すための絞り込み */
+function printQuery(j: Pick<PrintJob, "kind" | "station_id">) {
+  if (j.kind === "receipt") return "?kind=receipt";
+  return j.station_id ? `?station=${encodeURIComponent(j.station_id)}` : "?kind=kitchen&unassigned=1";
+}
+
+/** 印刷キュー（キッチン伝票・レシート）。失敗したものを送り直せる */
+export default function PrintingPage() {
+  const [items, setItems] = useState<Job[] | null>(null);
+  const [onlyFailed, setOnlyFailed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function fetchJobs() {
+    try {
+      const qs = onlyFailed ? "?status=failed" : "";
+      const res = await fetch(`/api/admin/print-jobs${qs}`, { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: Job[]; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `取得に失敗しました（HTTP ${res.status}）`);
+      }
+      setItems(json.items ?? []);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /** 共通：POST →一覧再取得 */
+  async function post(url: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, { method: "POST", credentials: "include" });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `失敗しました（HTTP ${res.status}）`);
+      }
+      await fetchJobs();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchJobs();
+    // 送信・再送の進み具合を見るため 10 秒ごとに取り直す
+    const t = setInterval(fetchJobs, 10_000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [onlyFailed]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminSubHeader title="印刷">
+        <button
+          onClick={() => post("/api/admin/print-jobs")}
+          disabled={busy}
+          className="rounded-lg bg-gray-900 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+          title="待機中の印刷を今すぐ送ります"
+        >
+          今すぐ送る
+        </button>
+      </AdminSubHeader>
+
+      <main className="mx-auto max-w-5xl px-4 py-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={onlyFailed} onChange={(e) => setOnlyFailed(e.target.checked)} />
+            失敗だけ
+          </label>
+          <span className="text-xs text-gray-500">
+            プリンタは「キッチン」の持ち場の設定で登録します。届かないときは間隔を空けて 5 回まで送り直します。
+          </span>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 text-sm">{error}</div>
+        )}
+
+        {items === null ? (
+          <p className="text-sm text-gray-500">読み込み中…</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">印刷はありません。</p>
+        ) : (
+          <ul className="grid gap-2">
+            {items.map((j) => (
+              <li key={j.id} className="rounded-2xl border bg-white p-3 shadow-sm text-sm text-gray-800">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs ${STATUS_LABELS[j.status].className}`}
+                  >
+                    {STATUS_LABELS[j.status].label}
+                  </span>
+                  <span className="font-semibold">#{j.order_no ?? "-"}</span>
+                  <span>{j.kind === "receipt" ? "レシート" : `伝票（${j.station_id ?? "持ち場なし"}）`}</span>
+                  <span className="text-xs text-gray-500">
+                    {j.printer_host}:{j.printer_port}・{j.attempts}回
+                  </span>
+                  <span className="ml-auto text-xs text-gray-400 tabular-nums">
+                    {new Date(j.created_at).toLocaleString()}
+                  </span>
+                </div>
+                {j.last_error && j.status !== "printed" && (
+                  <p className="mt-1 text-xs text-red-700 break-words">
+                    {j.last_error}
+                    {j.status === "queued" && `（次の送信 ${new Date(j.next_attempt_at).toLocaleTimeString()}）`}
+                  </p>
+                )}
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {j.status === "failed" && (
+                    <button
+                      onClick={() => post(`/api/admin/print-jobs/${j.id}`)}
+                      disabled={busy}
+                      className="rounded-xl border px-3 py-1 text-sm disabled:opacity-60"
+                    >
+                      再試行
+                    </button>
+                  )}
+                  {j.order_id && (
+                    <Link
+                      href={`/admin/print/${j.order_id}${printQuery(j)}`}
+                      target="_blank"
+                      className="rounded-xl border px-3 py-1 text-sm"
+                    >
+                      ブラウザで印刷
+                    </Link>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
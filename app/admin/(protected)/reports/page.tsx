@@ -0,0 +1,228 @@
+// app/admin/(protected)/reports/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { safeJson } from "@/lib/safeJson";
+import { addDays, jstDate } from "@/lib/jst";
+import AdminSubHeader from "../_components/AdminSubHeader";
+
+type Summary = {
+  orders: number;
+  cancelled: number;
+  revenue: number;
+  average_order_value: number;
+  cancellation_rate: number;
+  avg_completion_sec: number | null;
+};
+type DailyRow = { day: string; orders: number; cancelled: number; revenue: number };
+type HourlyRow = { hour: number; orders: number; revenue: number };
+type TopItem = { item_id: string; name: string; qty: number; revenue: number };
+
+type Report = {
+  ok: boolean;
+  from: string;
+  to: string;
+  summary: Summary;
+  daily: DailyRow[];
+  hourly: HourlyRow[];
+  top_items: TopItem[];
+  error?: string;
+};
+
+/** よく使う期間 */
+const QUICK_RANGES = [
+  { label: "今日", days: 1 },
+  { label: "7日", days: 7 },
+  { label: "30日", days: 30 },
+  { label: "90日", days: 90 },
+] as const;
+
+const yen = (n: number) => `¥${Number(n).toLocaleString()}`;
+
+/** 秒 → 「12分30秒」 */
+function formatDuration(sec: number | null) {
+  if (sec == null) return "—";
+  const m = Math.floor(sec / 60);
+  const s = Math.round(sec % 60);
+  return m > 0 ? `${m}分${s}秒` : `${s}秒`;
+}
+
+export default function ReportsPage() {
+  const today = jstDate();
+  const [from, setFrom] = useState(addDays(today, -6));
+  const [to, setTo] = useState(today);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function fetchReport(f: string, t: string) {
+    setLoading(true);
+    try {
+      const qs = new URLSearchParams({ from: f, to: t });
+      const res = await fetch(`/api/admin/reports?${qs}`, { credentials: "include", cache: "no-store" });
+      const json = await safeJson<Report>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `集計に失敗しました（HTTP ${res.status}）`);
+      }
+      setReport(json as Report);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchReport(from, to);
+  }, [from, to]);
+
+  function quickRange(days: number) {
+    setTo(today);
+    setFrom(addDays(today, -(days - 1)));
+  }
+
+  const s = report?.summary;
+  const maxDaily = Math.max(1, ...(report?.daily ?? []).map((d) => Number(d.revenue)));
+  const maxHourly = Math.max(1, ...(report?.hourly ?? []).map((h) => Number(h.orders)));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminSubHeader title="売上レポート">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-gray-900"
+            aria-label="開始日"
+          />
+          <span className="text-gray-500">〜</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-gray-900"
+            aria-label="終了日"
+          />
+          {QUICK_RANGES.map((r) => (
+            <button
+              key={r.label}
+              onClick={() => quickRange(r.days)}
+              className="rounded-lg border px-2 py-1 text-gray-700 hover:bg-gray-50"
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </AdminSubHeader>
+
+      <main className="mx-auto max-w-5xl px-4 py-6 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 text-sm">{error}</div>
+        )}
+        {loading && !report && <p className="text-sm text-gray-500">集計中…</p>}
+
+        {s && report && (
+          <>
+            {/* ===== サマリー ===== */}
+            <section className={`grid grid-cols-2 gap-3 md:grid-cols-5 ${loading ? "opacity-60" : ""}`}>
+              <Kpi label="売上（税込）" value={yen(s.revenue)} />
+              <Kpi label="注文数" value={`${s.orders.toLocaleString()}件`} />
+              <Kpi label="客単価" value={yen(s.average_order_value)} />
+              <Kpi
+                label="キャンセル率"
+                value={`${(s.cancellation_rate * 100).toFixed(1)}%`}
+                sub={`${s.cancelled.toLocaleString()}件`}
+              />
+              <Kpi label="平均提供時間" value={formatDuration(s.avg_completion_sec)} sub="注文〜提供済" />
+            </section>
+
+            {/* ===== 日別 ===== */}
+            <section className="rounded-2xl border bg-white p-4 shadow-sm">
+              <h2 className="text-sm font-semibold text-gray-900">日別</h2>
+              <ul className="mt-3 space-y-1">
+                {report.daily.map((d) => (
+                  <li key={d.day} className="grid grid-cols-[6.5rem_1fr_5rem_6rem] items-center gap-2 text-xs">
+                    <span className="tabular-nums text-gray-600">{d.day}</span>
+                    <span className="h-3 rounded bg-gray-100">
+                      <span
+                        className="block h-3 rounded bg-emerald-500"
+                        style={{ width: `${(Number(d.revenue) / maxDaily) * 100}%` }}
+                      />
+                    </span>
+                    <span className="text-right tabular-nums text-gray-600">{Number(d.orders)}件</span>
+                    <span className="text-right tabular-nums text-gray-900">{yen(d.revenue)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {/* ===== 時間帯別 ===== */}
+            <section className="rounded-2xl border bg-white p-4 shadow-sm">
+              <h2 className="text-sm font-semibold text-gray-900">時間帯別（注文数）</h2>
+              <div className="mt-3 flex h-32 items-end gap-1">
+                {report.hourly.map((h) => (
+                  <div key={h.hour} className="flex h-full flex-1 flex-col justify-end" title={`${h.hour}時：${h.orders}件 ${yen(h.revenue)}`}>
+                    <div
+                      className="rounded-t bg-sky-500"
+                      style={{ height: `${(Number(h.orders) / maxHourly) * 100}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-1 flex gap-1 text-[10px] text-gray-500">
+                {report.hourly.map((h) => (
+                  <span key={h.hour} className="flex-1 text-center tabular-nums">
+                    {h.hour % 3 === 0 ? h.hour : ""}
+                  </span>
+                ))}
+              </div>
+            </section>
+
+            {/* ===== 商品ランキング ===== */}
+            <section className="rounded-2xl border bg-white p-4 shadow-sm">
+              <h2 className="text-sm font-semibold text-gray-900">売れ筋商品</h2>
+              {report.top_items.length === 0 ? (
+                <p className="mt-2 text-sm text-gray-500">この期間の注文はありません。</p>
+              ) : (
+                <table className="mt-2 w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1 w-8">#</th>
+                      <th className="py-1">商品</th>
+                      <th className="py-1 text-right">数量</th>
+                      <th className="py-1 text-right">売上</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.top_items.map((it, i) => (
+                      <tr key={it.item_id} className="border-t">
+                        <td className="py-1 tabular-nums text-gray-500">{i + 1}</td>
+                        <td className="py-1 text-gray-900">{it.name}</td>
+                        <td className="py-1 text-right tabular-nums">{Number(it.qty).toLocaleString()}</td>
+                        <td className="py-1 text-right tabular-nums">{yen(it.revenue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function Kpi({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="rounded-2xl border bg-white p-3 shadow-sm">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="mt-1 text-lg font-semibold tabular-nums text-gray-900">{value}</p>
+      {sub && <p className="text-xs text-gray-500">{sub}</p>}
+    </div>
+  );
+}
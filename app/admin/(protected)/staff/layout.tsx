@@ -0,0 +1,14 @@
+// app/admin/(protected)/staff/layout.tsx
+import { redirect } from "next/navigation";
+import { hasPermission, requireAdmin } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** スタッフ管理はオーナーのみ（API 側でも同じ判定をする） */
+export default async function StaffLayout({ children }: { children: React.ReactNode }) {
+  // 未ログインは親のレイアウトでログインへ。ロック中の共有端末・権限のない人は注文管理へ戻す
+  const session = await requireAdmin();
+  if (!session || !hasPermission(session, "manage_staff")) redirect("/admin");
+  return <>{children}</>;
+}
@@ -0,0 +1,405 @@
+// app/admin/(protected)/staff/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { safeJson } from "@/lib/safeJson";
+import { ROLE_LABELS, STAFF_ROLES, type StaffRole } from "@/lib/roles";
+import type { LoginAttempt, LoginAttemptResult } from "@/lib/loginAttempts";
+import type { Device } from "@/lib/devices";
+import AdminSubHeader from "../_components/AdminSubHeader";
+
+type StaffMember = {
+  id: string;
+  login_id: string;
+  name: string;
+  role: StaffRole;
+  active: boolean;
+  /** 共有端末で切り替えるための PIN を設定済みか */
+  has_pin: boolean;
+  last_login_at: string | null;
+};
+
+type Draft = { login_id: string; name: string; role: StaffRole; password: string };
+
+const EMPTY_DRAFT: Draft = { login_id: "", name: "", role: "kitchen", password: "" };
+
+const RESULT_LABELS: Record<LoginAttemptResult, { label: string; className: string }> = {
+  success: { label: "成功", className: "text-green-700" },
+  failed: { label: "失敗", className: "text-red-700" },
+  throttled: { label: "制限中", className: "text-orange-700" },
+};
+
+/** 役割の説明（追加フォームの補足） */
+const ROLE_HELP: Record<StaffRole, string> = {
+  owner: "すべての操作とスタッフ管理",
+  manager: "注文のキャンセル・受付STOP・処理済みクリア",
+  kitchen: "注文の受付・調理・提供",
+};
+
+export default function StaffAdminPage() {
+  const [items, setItems] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newDraft, setNewDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [busy, setBusy] = useState(false);
+  const [attempts, setAttempts] = useState<LoginAttempt[] | null>(null);
+  const [devices, setDevices] = useState<Device[] | null>(null);
+
+  async function fetchStaff() {
+    try {
+      const res = await fetch("/api/admin/staff", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: StaffMember[]; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `スタッフの取得に失敗しました（HTTP ${res.status}）`);
+      }
+      setItems(json.items ?? []);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** ログイン試行ログ（新しい順） */
+  async function fetchAttempts() {
+    try {
+      const res = await fetch("/api/admin/login-attempts?limit=100", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: LoginAttempt[] }>(res);
+      setAttempts(json.items ?? []);
+    } catch {
+      setAttempts([]);
+    }
+  }
+
+  /** 登録済みの共有端末 */
+  async function fetchDevices() {
+    try {
+      const res = await fetch("/api/admin/devices", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: Device[] }>(res);
+      setDevices(json.items ?? []);
+    } catch {
+      setDevices([]);
+    }
+  }
+
+  /** 共通：API 呼び出し→一覧再取得 */
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `保存に失敗しました（HTTP ${res.status}）`);
+      }
+      await Promise.all([fetchStaff(), fetchDevices()]);
+      return true;
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = await send("/api/admin/staff", "POST", { ...newDraft, name: newDraft.name.trim() });
+    if (ok) setNewDraft(EMPTY_DRAFT);
+  }
+
+  async function rename(s: StaffMember) {
+    const name = prompt("表示名（履歴に残る名前）", s.name);
+    if (name === null || !name.trim() || name.trim() === s.name) return;
+    await send(`/api/admin/staff/${s.id}`, "PATCH", { name: name.trim() });
+  }
+
+  async function resetPassword(s: StaffMember) {
+    const password = prompt(
+      `「${s.name}」の新しいパスワード（8文字以上）\nログイン中の端末はログアウトされ、ログインのロックも解除されます。`,
+    );
+    if (!password) return;
+    await send(`/api/admin/staff/${s.id}`, "PATCH", { password });
+  }
+
+  async function setPin(s: StaffMember) {
+    const pin = prompt(
+      `「${s.name}」が共有端末で使う PIN（数字4〜8桁）\n空欄にすると PIN を削除し、共有端末では選べなくなります。`,
+    );
+    if (pin === null) return;
+    if (pin && !/^\d{4,8}$/.test(pin)) {
+      alert("PIN は数字4〜8桁で入力してください");
+      return;
+    }
+    await send(`/api/admin/staff/${s.id}`, "PATCH", { pin: pin || null });
+  }
+
+  /** このブラウザを共有端末にする（自分のログインは終わり、キッチン画面へ） */
+  async function registerDevice() {
+    const name = prompt(
+      "この端末の名前（例: キッチン1）\n登録するとこのブラウザのログインは終わり、以後は PIN で担当者を切り替えて使います。",
+    );
+    if (name === null || !name.trim()) return;
+    const ok = await send("/api/admin/devices", "POST", { name: name.trim() });
+    if (ok) location.href = "/admin/kitchen";
+  }
+
+  async function revokeDevice(d: Device) {
+    if (!confirm(`共有端末「${d.name}」の登録を取り消しますか？（その端末はすぐ使えなくなります）`)) return;
+    await send(`/api/admin/devices/${d.id}`, "DELETE");
+  }
+
+  async function remove(s: StaffMember) {
+    if (!confirm(`「${s.name}」を削除しますか？（履歴の名前は残ります）`)) return;
+    await send(`/api/admin/staff/${s.id}`, "DELETE");
+  }
+
+  useEffect(() => {
+    fetchStaff();
+    fetchAttempts();
+    fetchDevices();
+  }, []);
+
+  const input = "w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900";
+  const set = (patch: Partial<Draft>) => setNewDraft((d) => ({ ...d, ...patch }));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminSubHeader title="スタッフ管理" />
+
+      <main className="mx-auto max-w-5xl px-4 py-6 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 text-sm">{error}</div>
+        )}
+
+        {/* ===== 追加フォーム ===== */}
+        <form onSubmit={create} className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
+          <h2 className="text-base md:text-sm font-semibold text-gray-900">スタッフを追加</h2>
+          <div className="grid gap-2 md:grid-cols-4">
+            <label className="block">
+              <span className="text-xs text-gray-600">ログインID</span>
+              <input
+                className={input}
+                value={newDraft.login_id}
+                onChange={(e) => set({ login_id: e.target.value })}
+                autoCapitalize="none"
+                autoCorrect="off"
+                required
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">表示名</span>
+              <input className={input} value={newDraft.name} onChange={(e) => set({ name: e.target.value })} required />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">役割</span>
+              <select
+                className={input}
+                value={newDraft.role}
+                onChange={(e) => set({ role: e.target.value as StaffRole })}
+              >
+                {STAFF_ROLES.map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">初期パスワード（8文字以上）</span>
+              <input
+                className={input}
+                type="password"
+                minLength={8}
+                value={newDraft.password}
+                onChange={(e) => set({ password: e.target.value })}
+                autoComplete="new-password"
+                required
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            {ROLE_LABELS[newDraft.role]}：{ROLE_HELP[newDraft.role]}
+          </p>
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded-xl bg-gray-900 text-white px-4 py-2 text-sm disabled:opacity-60"
+          >
+            追加
+          </button>
+        </form>
+
+        {/* ===== 一覧 ===== */}
+        {loading ? (
+          <p className="text-sm text-gray-500">読み込み中…</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">スタッフはまだいません。</p>
+        ) : (
+          <ul className="grid gap-3">
+            {items.map((s) => (
+              <li
+                key={s.id}
+                className={`rounded-2xl border bg-white p-4 shadow-sm ${s.active ? "" : "opacity-60"}`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-base font-semibold text-gray-900">{s.name}</span>
+                  <span className="text-xs text-gray-500">{s.login_id}</span>
+                  {s.has_pin && (
+                    <span className="inline-flex items-center rounded-full border border-blue-200 bg-blue-50 px-2 py-0.5 text-xs text-blue-700">
+                      PIN設定済み
+                    </span>
+                  )}
+                  {!s.active && (
+                    <span className="inline-flex items-center rounded-full border border-gray-300 bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                      無効
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-400">
+                    最終ログイン {s.last_login_at ? new Date(s.last_login_at).toLocaleString() : "なし"}
+                  </span>
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <select
+                    className="rounded-xl border px-3 py-1.5 text-sm bg-white text-gray-900"
+                    value={s.role}
+                    disabled={busy}
+                    onChange={(e) => send(`/api/admin/staff/${s.id}`, "PATCH", { role: e.target.value })}
+                    aria-label="役割"
+                  >
+                    {STAFF_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {ROLE_LABELS[r]}
+                      </option>
+                    ))}
+                  </select>
+                  <button onClick={() => rename(s)} disabled={busy} className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60">
+                    名前を変更
+                  </button>
+                  <button
+                    onClick={() => resetPassword(s)}
+                    disabled={busy}
+                    className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    パスワード再設定
+                  </button>
+                  <button onClick={() => setPin(s)} disabled={busy} className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60">
+                    {s.has_pin ? "PIN変更" : "PIN設定"}
+                  </button>
+                  <button
+                    onClick={() => send(`/api/admin/staff/${s.id}`, "PATCH", { active: !s.active })}
+                    disabled={busy}
+                    className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    {s.active ? "無効にする" : "有効にする"}
+                  </button>
+                  <button
+                    onClick={() => remove(s)}
+                    disabled={busy}
+                    className="ml-auto rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* ===== 共有端末 ===== */}
+        <section className="rounded-2xl border bg-white p-4 shadow-sm space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-base md:text-sm font-semibold text-gray-900">共有端末</h2>
+            <span className="text-xs text-gray-500">
+              キッチンのタブレット等。PIN で担当者を切り替え、操作がないと自動でロックされます
+            </span>
+            <button
+              onClick={registerDevice}
+              disabled={busy}
+              className="ml-auto rounded-xl bg-gray-900 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+            >
+              この端末を共有端末として登録
+            </button>
+          </div>
+          {devices === null ? (
+            <p className="text-sm text-gray-500">読み込み中…</p>
+          ) : devices.length === 0 ? (
+            <p className="text-sm text-gray-500">登録された端末はありません。</p>
+          ) : (
+            <ul className="divide-y text-sm text-gray-800">
+              {devices.map((d) => (
+                <li key={d.id} className="flex flex-wrap items-center gap-2 py-2">
+                  <span className="font-semibold">{d.name}</span>
+                  <span className="text-xs text-gray-500">
+                    担当 {items.find((s) => s.id === d.active_staff_id)?.name ?? "なし"}・最終利用{" "}
+                    {new Date(d.last_seen_at).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => revokeDevice(d)}
+                    disabled={busy}
+                    className="ml-auto rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    取消
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* ===== ログイン履歴 ===== */}
+        <section className="rounded-2xl border bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-2">
+            <h2 className="text-base md:text-sm font-semibold text-gray-900">ログイン履歴</h2>
+            <span className="text-xs text-gray-500">直近100件。失敗が続くと IP・アカウントごとに一時的にロックされます</span>
+            <button onClick={fetchAttempts} className="ml-auto rounded-lg border px-3 py-1 text-sm">
+              更新
+            </button>
+          </div>
+          {attempts === null ? (
+            <p className="mt-2 text-sm text-gray-500">読み込み中…</p>
+          ) : attempts.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">履歴はありません。</p>
+          ) : (
+            <div className="mt-2 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-normal">日時</th>
+                    <th className="py-1 pr-3 font-normal">ログインID</th>
+                    <th className="py-1 pr-3 font-normal">結果</th>
+                    <th className="py-1 pr-3 font-normal">IP</th>
+                    <th className="py-1 font-normal">端末</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y text-gray-800">
+                  {attempts.map((a) => (
+                    <tr key={a.id}>
+                      <td className="py-1 pr-3 whitespace-nowrap tabular-nums">{new Date(a.created_at).toLocaleString()}</td>
+                      <td className="py-1 pr-3">
+                        {a.login_id ?? "-"}
+                        {a.method === "pin" && <span className="ml-1 text-xs text-gray-500">（PIN）</span>}
+                      </td>
+                      <td className={`py-1 pr-3 whitespace-nowrap ${RESULT_LABELS[a.result].className}`}>
+                        {RESULT_LABELS[a.result].label}
+                      </td>
+                      <td className="py-1 pr-3 tabular-nums">{a.ip ?? "-"}</td>
+                      <td className="py-1 max-w-[16rem] truncate text-xs text-gray-500" title={a.user_agent ?? ""}>
+                        {a.user_agent ?? "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+// app/admin/(protected)/tables/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { safeJson } from "@/lib/safeJson";
+import AdminSubHeader from "../_components/AdminSubHeader";
+
+type DiningTable = {
+  id: string;
+  code: string;
+  label: string;
+  seats: number | null;
+  active: boolean;
+  token_version: number;
+  sort_order: number;
+  order_url: string;
+};
+
+type Draft = { code: string; label: string; seats: string; sort_order: string };
+
+const EMPTY_DRAFT: Draft = { code: "", label: "", seats: "", sort_order: "0" };
+
+function draftToBody(d: Draft) {
+  return {
+    code: d.code.trim(),
+    label: d.label.trim() || d.code.trim(),
+    seats: d.seats ? Number(d.seats) : null,
+    sort_order: Number(d.sort_order) || 0,
+  };
+}
+
+export default function TablesAdminPage() {
+  const [items, setItems] = useState<DiningTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newDraft, setNewDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<{ id: string; draft: Draft } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  async function fetchTables() {
+    try {
+      const res = await fetch("/api/admin/tables", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: DiningTable[]; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `テーブルの取得に失敗しました（HTTP ${res.status}）`);
+      }
+      setItems(json.items ?? []);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** 共通：API 呼び出し→一覧再取得 */
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `保存に失敗しました（HTTP ${res.status}）`);
+      }
+      await fetchTables();
+      return true;
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = await send("/api/admin/tables", "POST", draftToBody(newDraft));
+    if (ok) setNewDraft(EMPTY_DRAFT);
+  }
+
+  async function saveEdit() {
+    if (!editing) return;
+    const ok = await send(`/api/admin/tables/${editing.id}`, "PATCH", draftToBody(editing.draft));
+    if (ok) setEditing(null);
+  }
+
+  async function remove(t: DiningTable) {
+    if (!confirm(`「${t.label}」を削除しますか？（過去の注文の表示は残ります）`)) return;
+    await send(`/api/admin/tables/${t.id}`, "DELETE");
+  }
+
+  /** QR 再発行（流出時）。古い QR からの注文は受け付けなくなる */
+  async function regenerate(t: DiningTable) {
+    if (!confirm(`「${t.label}」の QR コードを再発行しますか？\n今貼ってある QR は使えなくなります。`)) return;
+    await send(`/api/admin/tables/${t.id}/regenerate`, "POST");
+  }
+
+  async function copyUrl(t: DiningTable) {
+    try {
+      await navigator.clipboard.writeText(t.order_url);
+      setCopiedId(t.id);
+      setTimeout(() => setCopiedId((cur) => (cur === t.id ? null : cur)), 1500);
+    } catch {
+      prompt("URL をコピーしてください", t.order_url);
+    }
+  }
+
+  useEffect(() => {
+    fetchTables();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminSubHeader title="テーブル管理">
+        <Link href="/admin/tables/print" className="rounded-lg bg-gray-900 text-white px-3 py-1.5 text-sm">
+          🖨 QR一括印刷
+        </Link>
+      </AdminSubHeader>
+
+      <main className="mx-auto max-w-5xl px-4 py-6 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 text-sm">{error}</div>
+        )}
+
+        {/* ===== 追加フォーム ===== */}
+        <form onSubmit={create} className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
+          <h2 className="text-base md:text-sm font-semibold text-gray-900">テーブルを追加</h2>
+          <DraftFields draft={newDraft} onChange={setNewDraft} />
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded-xl bg-gray-900 text-white px-4 py-2 text-sm disabled:opacity-60"
+          >
+            追加
+          </button>
+        </form>
+
+        {/* ===== 一覧 ===== */}
+        {loading ? (
+          <p className="text-sm text-gray-500">読み込み中…</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">テーブルはまだありません。</p>
+        ) : (
+          <ul className="grid gap-3">
+            {items.map((t) =>
+              editing?.id === t.id ? (
+                <li key={t.id} className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
+                  <DraftFields
+                    draft={editing.draft}
+                    onChange={(draft) => setEditing({ id: t.id, draft })}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={saveEdit}
+                      disabled={busy}
+                      className="rounded-xl bg-gray-900 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      保存
+                    </button>
+                    <button onClick={() => setEditing(null)} className="rounded-xl border px-3 py-1.5 text-sm">
+                      やめる
+                    </button>
+                  </div>
+                </li>
+              ) : (
+                <li
+                  key={t.id}
+                  className={`rounded-2xl border bg-white p-4 shadow-sm ${t.active ? "" : "opacity-60"}`}
+                >
+                  <div className="flex gap-4">
+                    {/* QR プレビュー（バージョンが変わったら再取得） */}
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={`/api/admin/tables/${t.id}/qr?v=${t.token_version}`}
+                      alt={`${t.label} の QR コード`}
+                      className="h-24 w-24 shrink-0 rounded border"
+                    />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-lg font-bold text-gray-900">{t.code}</span>
+                        <span className="text-sm text-gray-700">{t.label}</span>
+                        {t.seats != null && <span className="text-xs text-gray-500">{t.seats}席</span>}
+                        {!t.active && (
+                          <span className="inline-flex items-center rounded-full border border-gray-300 bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                            使用停止
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500 break-all">{t.order_url}</p>
+                    </div>
+                  </div>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button onClick={() => copyUrl(t)} className="rounded-xl border px-3 py-1.5 text-sm">
+                      {copiedId === t.id ? "コピーしました" : "URLをコピー"}
+                    </button>
+                    <Link href={`/admin/tables/print?ids=${t.id}`} className="rounded-xl border px-3 py-1.5 text-sm">
+                      印刷
+                    </Link>
+                    <button
+                      onClick={() => regenerate(t)}
+                      disabled={busy}
+                      className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      QR再発行
+                    </button>
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          id: t.id,
+                          draft: {
+                            code: t.code,
+                            label: t.label,
+                            seats: t.seats == null ? "" : String(t.seats),
+                            sort_order: String(t.sort_order ?? 0),
+                          },
+                        })
+                      }
+                      className="rounded-xl border px-3 py-1.5 text-sm"
+                    >
+                      編集
+                    </button>
+                    <button
+                      onClick={() => send(`/api/admin/tables/${t.id}`, "PATCH", { active: !t.active })}
+                      disabled={busy}
+                      className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      {t.active ? "使用停止にする" : "使用再開"}
+                    </button>
+                    <button
+                      onClick={() => remove(t)}
+                      disabled={busy}
+                      className="ml-auto rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </li>
+              ),
+            )}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
+
+/** 入力欄一式（追加・編集で共用） */
+function DraftFields({ draft, onChange }: { draft: Draft; onChange: (d: Draft) => void }) {
+  const input = "w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900";
+  const set = (patch: Partial<Draft>) => onChange({ ...draft, ...patch });
+  return (
+    <div className="grid gap-2 md:grid-cols-4">
+      <label className="block">
+        <span className="text-xs text-gray-600">コード（例: A1）</span>
+        <input className={input} value={draft.code} onChange={(e) => set({ code: e.target.value })} required />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">表示名（空ならコード）</span>
+        <input className={input} value={draft.label} onChange={(e) => set({ label: e.target.value })} />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">席数</span>
+        <input
+          className={input}
+          type="number"
+          min={1}
+          inputMode="numeric"
+          value={draft.seats}
+          onChange={(e) => set({ seats: e.target.value })}
+        />
+      </label>
+      <label className="block">
+        <span className="text-xs text-gray-600">並び順</span>
+        <input
+          className={input}
+          type="number"
+          value={draft.sort_order}
+          onChange={(e) => set({ sort_order: e.target.value })}
+        />
+      </label>
+    </div>
+  );
+}
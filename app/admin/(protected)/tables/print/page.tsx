@@ -0,0 +1,60 @@
+// app/admin/(protected)/tables/print/page.tsx
+import { listTables, tableQrSvg } from "@/lib/tables";
+import AdminSubHeader from "../../_components/AdminSubHeader";
+import PrintButton from "../../_components/PrintButton";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * テーブル QR の印刷用シート（A4・1枚に 2列×3段）。
+ * ?ids=<id>,<id> で対象を絞れる（未指定なら使用中の全テーブル）。
+ */
+export default async function TableQrPrintPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ ids?: string }>;
+}) {
+  const { ids } = await searchParams;
+  const only = ids ? new Set(ids.split(",").filter(Boolean)) : null;
+
+  const tables = (await listTables()).filter((t) => (only ? only.has(t.id) : t.active));
+  const cards = await Promise.all(tables.map(async (t) => ({ table: t, svg: await tableQrSvg(t) })));
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      {/* 用紙設定（A4 縦） */}
+      <style>{`@page { size: A4 portrait; margin: 10mm; }`}</style>
+
+      <AdminSubHeader title="QRコード印刷">
+        <PrintButton />
+      </AdminSubHeader>
+
+      <main className="mx-auto max-w-[190mm] px-4 py-6 print:p-0">
+        {cards.length === 0 ? (
+          <p className="text-sm text-gray-500">印刷するテーブルがありません。</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-[6mm]">
+            {cards.map(({ table, svg }) => (
+              <section
+                key={table.id}
+                className="flex h-[88mm] flex-col items-center justify-center rounded-xl border border-gray-300 bg-white p-[5mm] break-inside-avoid"
+              >
+                <p className="text-2xl font-bold text-gray-900">{table.label}</p>
+                <div
+                  className="my-[3mm] h-[55mm] w-[55mm] [&>svg]:h-full [&>svg]:w-full"
+                  // qrcode ライブラリがサーバ側で生成した SVG
+                  dangerouslySetInnerHTML={{ __html: svg }}
+                />
+                <p className="text-sm text-gray-700">スマートフォンで読み取ってご注文ください</p>
+                <p className="mt-1 text-xs text-gray-400">
+                  {table.code} / v{table.token_version}
+                </p>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+// app/admin/(protected)/webhooks/layout.tsx
+import { redirect } from "next/navigation";
+import { hasPermission, requireAdmin } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 外部連携の設定はオーナーのみ（API 側でも同じ判定をする） */
+export default async function WebhooksLayout({ children }: { children: React.ReactNode }) {
+  const session = await requireAdmin();
+  if (!session || !hasPermission(session, "manage_webhooks")) redirect("/admin");
+  return <>{children}</>;
+}
@@ -0,0 +1,375 @@
+// app/admin/(protected)/webhooks/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { safeJson } from "@/lib/safeJson";
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS, type WebhookEvent } from "@/lib/webhookEvents";
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from "@/lib/webhooks";
+import AdminSubHeader from "../_components/AdminSubHeader";
+
+type Draft = { url: string; description: string; events: WebhookEvent[] };
+
+const EMPTY_DRAFT: Draft = { url: "", description: "", events: [...WEBHOOK_EVENTS] };
+
+const STATUS_LABELS: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: "送信待ち", className: "border-gray-300 bg-gray-100 text-gray-700" },
+  delivering: { label: "送信中", className: "border-blue-200 bg-blue-50 text-blue-700" },
+  delivered: { label: "送信済", className: "border-green-200 bg-green-50 text-green-700" },
+  dead: { label: "送信できず", className: "border-red-200 bg-red-50 text-red-700" },
+};
+
+/** 外部連携（Webhook）の送り先と配信ログ。オーナーのみ */
+export default function WebhooksPage() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [endpointFilter, setEndpointFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | "">("");
+  const [newDraft, setNewDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [shownSecret, setShownSecret] = useState<string | null>(null);
+  const [openDelivery, setOpenDelivery] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function fetchEndpoints() {
+    try {
+      const res = await fetch("/api/admin/webhooks", { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: WebhookEndpoint[]; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `送り先の取得に失敗しました（HTTP ${res.status}）`);
+      }
+      setEndpoints(json.items ?? []);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function fetchDeliveries() {
+    try {
+      const qs = new URLSearchParams();
+      if (endpointFilter) qs.set("endpoint", endpointFilter);
+      if (statusFilter) qs.set("status", statusFilter);
+      const res = await fetch(`/api/admin/webhooks/deliveries?${qs}`, { credentials: "include", cache: "no-store" });
+      const json = await safeJson<{ ok: boolean; items: WebhookDelivery[] }>(res);
+      setDeliveries(json.items ?? []);
+    } catch {
+      setDeliveries([]);
+    }
+  }
+
+  /** 共通：API 呼び出し→一覧再取得 */
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const json = await safeJson<{ ok: boolean; error?: string }>(res);
+      if (!res.ok || json.ok === false) {
+        throw new Error(json.error || `保存に失敗しました（HTTP ${res.status}）`);
+      }
+      await Promise.all([fetchEndpoints(), fetchDeliveries()]);
+      return true;
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = await send("/api/admin/webhooks", "POST", {
+      url: newDraft.url.trim(),
+      description: newDraft.description.trim() || null,
+      events: newDraft.events,
+    });
+    if (ok) setNewDraft(EMPTY_DRAFT);
+  }
+
+  function toggleEvent(ep: WebhookEndpoint, ev: WebhookEvent) {
+    const events = ep.events.includes(ev) ? ep.events.filter((x) => x !== ev) : [...ep.events, ev];
+    send(`/api/admin/webhooks/${ep.id}`, "PATCH", { events });
+  }
+
+  async function rotate(ep: WebhookEndpoint) {
+    if (!confirm("署名の鍵を作り直しますか？（受け手側の鍵も新しいものに差し替えてください）")) return;
+    if (await send(`/api/admin/webhooks/${ep.id}`, "PATCH", { rotate_secret: true })) setShownSecret(ep.id);
+  }
+
+  async function remove(ep: WebhookEndpoint) {
+    if (!confirm(`送り先「${ep.description || ep.url}」を削除しますか？（配信ログも消えます）`)) return;
+    await send(`/api/admin/webhooks/${ep.id}`, "DELETE");
+  }
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries();
+    // 送信・再送の進み具合を見るため 10 秒ごとに取り直す
+    const t = setInterval(fetchDeliveries, 10_000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [endpointFilter, statusFilter]);
+
+  const input = "w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900";
+  const endpointName = (id: string) => {
+    const ep = endpoints.find((x) => x.id === id);
+    return ep ? ep.description || ep.url : "（削除済み）";
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminSubHeader title="外部連携（Webhook）" />
+
+      <main className="mx-auto max-w-5xl px-4 py-6 space-y-6">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 text-sm">{error}</div>
+        )}
+
+        <p className="text-xs text-gray-600">
+          注文の出来事を POS・LINE ボット等に JSON で POST します。本文は{" "}
+          <code>X-Webhook-Signature: t=&lt;UNIX秒&gt;,v1=&lt;署名&gt;</code> で署名しています（署名 = 鍵で「t.本文」を
+          HMAC-SHA256 した16進）。受け手は署名を確かめ、<code>X-Webhook-Id</code> で重複を捨ててください。
+          届かなかったものは間隔を倍々に空けて送り直し、8 回失敗すると「送信できず」になります。
+        </p>
+
+        {/* ===== 追加フォーム ===== */}
+        <form onSubmit={create} className="rounded-2xl border bg-white p-4 shadow-sm space-y-3">
+          <h2 className="text-base md:text-sm font-semibold text-gray-900">送り先を追加</h2>
+          <div className="grid gap-2 md:grid-cols-2">
+            <label className="block">
+              <span className="text-xs text-gray-600">URL</span>
+              <input
+                className={input}
+                type="url"
+                placeholder="https://example.com/webhooks/orders"
+                value={newDraft.url}
+                onChange={(e) => setNewDraft({ ...newDraft, url: e.target.value })}
+                required
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">説明（任意）</span>
+              <input
+                className={input}
+                placeholder="例: POS"
+                value={newDraft.description}
+                onChange={(e) => setNewDraft({ ...newDraft, description: e.target.value })}
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-3 text-sm text-gray-800">
+            {WEBHOOK_EVENTS.map((ev) => (
+              <label key={ev} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={newDraft.events.includes(ev)}
+                  onChange={(e) =>
+                    setNewDraft({
+                      ...newDraft,
+                      events: e.target.checked ? [...newDraft.events, ev] : newDraft.events.filter((x) => x !== ev),
+                    })
+                  }
+                />
+                {WEBHOOK_EVENT_LABELS[ev]}
+                <span className="text-xs text-gray-400">{ev}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={busy || newDraft.events.length === 0}
+            className="rounded-xl bg-gray-900 text-white px-4 py-2 text-sm disabled:opacity-60"
+          >
+            追加
+          </button>
+        </form>
+
+        {/* ===== 送り先 ===== */}
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-gray-500">送り先はまだありません。</p>
+        ) : (
+          <ul className="grid gap-3">
+            {endpoints.map((ep) => (
+              <li key={ep.id} className={`rounded-2xl border bg-white p-4 shadow-sm ${ep.active ? "" : "opacity-60"}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-base font-semibold text-gray-900">{ep.description || "（説明なし）"}</span>
+                  <span className="min-w-0 break-all text-xs text-gray-500">{ep.url}</span>
+                  {!ep.active && (
+                    <span className="inline-flex items-center rounded-full border border-gray-300 bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                      無効
+                    </span>
+                  )}
+                </div>
+                <div className="mt-2 flex flex-wrap gap-3 text-sm text-gray-800">
+                  {WEBHOOK_EVENTS.map((ev) => (
+                    <label key={ev} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={ep.events.includes(ev)}
+                        disabled={busy || (ep.events.length === 1 && ep.events.includes(ev))}
+                        onChange={() => toggleEvent(ep, ev)}
+                      />
+                      {WEBHOOK_EVENT_LABELS[ev]}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-600">
+                  署名の鍵：
+                  <code className="ml-1 break-all">{shownSecret === ep.id ? ep.secret : "••••••••"}</code>
+                  <button
+                    onClick={() => setShownSecret(shownSecret === ep.id ? null : ep.id)}
+                    className="ml-2 underline"
+                  >
+                    {shownSecret === ep.id ? "隠す" : "表示"}
+                  </button>
+                </p>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => send(`/api/admin/webhooks/${ep.id}`, "PATCH", { active: !ep.active })}
+                    disabled={busy}
+                    className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    {ep.active ? "無効にする" : "有効にする"}
+                  </button>
+                  <button
+                    onClick={() => rotate(ep)}
+                    disabled={busy}
+                    className="rounded-xl border px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    鍵を作り直す
+                  </button>
+                  <button
+                    onClick={() => setEndpointFilter(ep.id)}
+                    className="rounded-xl border px-3 py-1.5 text-sm"
+                  >
+                    配信ログ
+                  </button>
+                  <button
+                    onClick={() => remove(ep)}
+                    disabled={busy}
+                    className="ml-auto rounded-xl bg-red-600 text-white px-3 py-1.5 text-sm disabled:opacity-60"
+                  >
+                    削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* ===== 配信ログ ===== */}
+        <section className="rounded-2xl border bg-white p-4 shadow-sm space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-base md:text-sm font-semibold text-gray-900">配信ログ</h2>
+            <select
+              className="rounded-lg border px-2 py-1 text-sm bg-white text-gray-900"
+              value={endpointFilter}
+              onChange={(e) => setEndpointFilter(e.target.value)}
+              aria-label="送り先で絞り込み"
+            >
+              <option value="">すべての送り先</option>
+              {endpoints.map((ep) => (
+                <option key={ep.id} value={ep.id}>
+                  {ep.description || ep.url}
+                </option>
+              ))}
+            </select>
+            <select
+              className="rounded-lg border px-2 py-1 text-sm bg-white text-gray-900"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as WebhookDeliveryStatus | "")}
+              aria-label="状態で絞り込み"
+            >
+              <option value="">すべての状態</option>
+              {(Object.keys(STATUS_LABELS) as WebhookDeliveryStatus[]).map((s) => (
+                <option key={s} value={s}>
+                  {STATUS_LABELS[s].label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => send("/api/admin/webhooks/deliveries", "POST")}
+              disabled={busy}
+              className="ml-auto rounded-lg border px-3 py-1 text-sm disabled:opacity-60"
+              title="送信待ちの配信を今すぐ送ります"
+            >
+              今すぐ送る
+            </button>
+          </div>
+
+          {deliveries === null ? (
+            <p className="text-sm text-gray-500">読み込み中…</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">配信はありません。</p>
+          ) : (
+            <ul className="divide-y text-sm text-gray-800">
+              {deliveries.map((d) => (
+                <li key={d.id} className="py-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span
+                      className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs ${STATUS_LABELS[d.status].className}`}
+                    >
+                      {STATUS_LABELS[d.status].label}
+                    </span>
+                    <span>{WEBHOOK_EVENT_LABELS[d.event_type] ?? d.event_type}</span>
+                    <span className="text-xs text-gray-500">→ {endpointName(d.endpoint_id)}</span>
+                    <span className="text-xs text-gray-500">
+                      {d.attempts}回{d.last_status_code !== null && `・HTTP ${d.last_status_code}`}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-400 tabular-nums">
+                      {new Date(d.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {d.last_error && d.status !== "delivered" && (
+                    <p className="mt-1 text-xs text-red-700 break-words">
+                      {d.last_error}
+                      {d.status === "pending" && `（次の送信 ${new Date(d.next_attempt_at).toLocaleTimeString()}）`}
+                    </p>
+                  )}
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    <button
+                      onClick={() => setOpenDelivery(openDelivery === d.id ? null : d.id)}
+                      className="text-xs text-gray-600 underline"
+                      aria-expanded={openDelivery === d.id}
+                    >
+                      詳細
+                    </button>
+                    {(d.status === "dead" || d.status === "delivered") && (
+                      <button
+                        onClick={() => send(`/api/admin/webhooks/deliveries/${d.id}`, "POST")}
+                        disabled={busy}
+                        className="rounded-lg border px-2 py-0.5 text-xs disabled:opacity-60"
+                      >
+                        再送
+                      </button>
+                    )}
+                  </div>
+                  {openDelivery === d.id && (
+                    <div className="mt-2 space-y-1 text-xs">
+                      <pre className="max-h-64 overflow-auto rounded-lg bg-gray-50 p-2">
+                        {JSON.stringify(d.payload, null, 2)}
+                      </pre>
+                      {d.last_response && (
+                        <pre className="max-h-32 overflow-auto rounded-lg bg-gray-50 p-2 text-gray-600">
+                          {d.last_response}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ export default function AdminLoginPage() {
 function LoginInner() {
   const sp = useSearchParams();
   const router = useRouter();
+  const [loginId, setLoginId] = useState("");
   const [password, setPassword] = useState("");
   const [showPw, setShowPw] = useState(false); // 👈 目アイコンで切替
   const [loading, setLoading] = useState(false);
@@ -33,7 +34,7 @@ function LoginInner() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ login_id: loginId, password }),
       });
       const json = await res.json();
       if (!res.ok || !json.ok) {
@@ -57,9 +58,27 @@ function LoginInner() {
       >
         {/* タイトル：PCは従来サイズ、モバイルは少し大きく＆濃く */}
         <h1 className="text-[20px] md:text-xl font-semibold text-gray-900">
-          管理者ログイン
+          スタッフログイン
         </h1>
 
+        <label className="block">
+          <span className="text-sm text-gray-800 md:text-gray-600">ログインID</span>
+          <input
+            className="
+              mt-1 w-full rounded-xl border border-gray-300
+              px-3 py-2
+              outline-none focus:ring-2 focus:ring-black/20
+              text-gray-900 caret-gray-900
+              "
+            value={loginId}
+            onChange={(e) => setLoginId(e.target.value)}
+            required
+            autoCapitalize="none"
+            autoCorrect="off"
+            autoComplete="username"
+          />
+        </label>
+
         <label className="block">
           {/* ラベル：モバイルで少し濃く */}
           <span className="text-sm text-gray-800 md:text-gray-600">パスワード</span>
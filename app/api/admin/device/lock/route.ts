@@ -0,0 +1,23 @@
+// app/api/admin/device/lock/route.ts
+import { NextResponse } from "next/server";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import { lockDevice } from "@/lib/devices";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** POST 共有端末をロックする（担当者を外す。離れるとき用） */
+export async function POST() {
+  const viewer = await requireViewer();
+  if (!viewer) return unauthorized();
+  if (!viewer.device) {
+    return NextResponse.json({ ok: false, error: "共有端末として登録されていません" }, { status: 400 });
+  }
+  try {
+    await lockDevice(viewer.device.id);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
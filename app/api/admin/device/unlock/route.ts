@@ -0,0 +1,66 @@
+// app/api/admin/device/unlock/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import { unlockDevice } from "@/lib/devices";
+import { checkLogin, recordLoginFailure, recordLoginSuccess } from "@/lib/loginThrottle";
+import { recordLoginAttempt } from "@/lib/loginAttempts";
+import { clientIp } from "@/lib/clientIp";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const UnlockSchema = z.object({
+  staff_id: z.string().uuid(),
+  pin: z.string().min(1).max(8),
+});
+
+/**
+ * POST { staff_id, pin } 共有端末の担当者を切り替える（PIN で本人確認）。
+ * 失敗はパスワードのログインとは別に、端末ごと・スタッフごとに数えて制限する。
+ */
+export async function POST(req: NextRequest) {
+  const viewer = await requireViewer();
+  if (!viewer) return unauthorized();
+  const { device } = viewer;
+  if (!device) {
+    return NextResponse.json({ ok: false, error: "共有端末として登録されていません" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = UnlockSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: "担当者と PIN を入力してください" }, { status: 400 });
+  }
+  const { staff_id, pin } = parsed.data;
+
+  const subject = { ip: `device:${device.id}`, loginId: `pin:${staff_id}` };
+  const attempt = {
+    ip: clientIp(req.headers),
+    user_agent: `${device.name} / ${req.headers.get("user-agent") ?? ""}`,
+    method: "pin" as const,
+  };
+  try {
+    const gate = await checkLogin(subject);
+    if (!gate.allowed) {
+      await recordLoginAttempt({ ...attempt, login_id: null, staff_id: null, result: "throttled" });
+      return NextResponse.json(
+        { ok: false, error: `PIN の失敗が続いています。${gate.retryAfterSec}秒後にもう一度お試しください`, retry_after: gate.retryAfterSec },
+        { status: 429, headers: { "Retry-After": String(gate.retryAfterSec) } },
+      );
+    }
+
+    const result = await unlockDevice(device.id, staff_id, pin);
+    if (!result.ok) {
+      await recordLoginFailure(subject);
+      await recordLoginAttempt({ ...attempt, login_id: result.login_id, staff_id: result.staff_id, result: "failed" });
+      return NextResponse.json({ ok: false, error: "PIN が違います" }, { status: 401 });
+    }
+    await recordLoginSuccess(subject);
+    await recordLoginAttempt({ ...attempt, login_id: result.login_id, staff_id: result.staff.id, result: "success" });
+    return NextResponse.json({ ok: true, staff: result.staff }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/admin/devices/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { revokeDevice } from "@/lib/devices";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 共有端末の登録を取り消す（紛失・入れ替え時。オーナーのみ） */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+
+  try {
+    const revoked = await revokeDevice(params.id);
+    if (!revoked) return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/admin/devices/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { listDevices, registerDevice } from "@/lib/devices";
+import { revokeSession } from "@/lib/session";
+import { DEVICE_COOKIE, DEVICE_MAX_AGE_SEC, SESSION_COOKIE, sessionCookieOptions } from "@/lib/sessionCookie";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RegisterSchema = z.object({ name: z.string().trim().min(1).max(50) });
+
+/** 登録済みの共有端末（オーナーのみ） */
+export async function GET() {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+  try {
+    const items = await listDevices();
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/**
+ * POST { name } このブラウザを共有端末として登録する（オーナーのみ）。
+ * 登録した人の個人セッションはここで終わり、以後この端末は PIN で担当者を切り替えて使う。
+ */
+export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+  if (session.device) {
+    return NextResponse.json({ ok: false, error: "この端末は既に登録されています" }, { status: 409 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = RegisterSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: "端末名を入力してください" }, { status: 400 });
+  }
+
+  let token: string;
+  let device: { id: string; name: string };
+  try {
+    ({ token, device } = await registerDevice(parsed.data.name, session.staff.id));
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+
+  const prev = req.cookies.get(SESSION_COOKIE)?.value;
+  if (prev) await revokeSession(prev);
+
+  const res = NextResponse.json({ ok: true, item: device });
+  res.cookies.set(DEVICE_COOKIE, token, sessionCookieOptions(DEVICE_MAX_AGE_SEC));
+  res.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
+  return res;
+}
@@ -0,0 +1,40 @@
+// app/api/admin/kitchen/[id]/done/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin, sessionActor, unauthorized } from "@/lib/auth";
+import { markStationDone } from "@/lib/kitchen";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DoneSchema = z.object({ station: z.string().min(1).max(64) });
+
+/**
+ * POST /api/admin/kitchen/[id]/done { station }
+ * 持ち場の担当分を作り終えた。全持ち場が終わった注文は「提供待ち」になる。
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = DoneSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const result = await markStationDone(params.id, parsed.data.station, sessionActor(session));
+  if (!result.ok) {
+    return NextResponse.json(
+      { ok: false, error: result.error, code: result.code },
+      { status: result.status },
+    );
+  }
+  return NextResponse.json({ ok: true, item: result.order, ready: result.ready }, { status: 200 });
+}
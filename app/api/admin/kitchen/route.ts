@@ -0,0 +1,24 @@
+// app/api/admin/kitchen/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import { kitchenQueue } from "@/lib/kitchen";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/kitchen?station=<持ち場 id>
+ * 調理待ちの注文（古い順）と商品ごとの合計数。station 未指定なら全持ち場。
+ * 割り当てなしの明細は unassigned（応答に含む）の id を持ち場として返す。
+ */
+export async function GET(req: NextRequest) {
+  if (!(await requireViewer())) return unauthorized();
+  try {
+    const station = req.nextUrl.searchParams.get("station") || null;
+    const queue = await kitchenQueue(station);
+    return NextResponse.json({ ok: true, station, ...queue }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
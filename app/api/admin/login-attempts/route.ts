@@ -0,0 +1,25 @@
+// app/api/admin/login-attempts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { listLoginAttempts } from "@/lib/loginAttempts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 500;
+
+/** GET ?limit= ログイン試行ログ（新しい順。オーナーのみ） */
+export async function GET(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+
+  const limit = Math.min(Math.max(Number(req.nextUrl.searchParams.get("limit")) || 100, 1), MAX_LIMIT);
+  try {
+    const items = await listLoginAttempts(limit);
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
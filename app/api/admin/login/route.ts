@@ -1,27 +1,72 @@
 // app/api/admin/login/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { createSession, revokeSession } from "@/lib/session";
+import { SESSION_COOKIE, SESSION_MAX_AGE_SEC, sessionCookieOptions } from "@/lib/sessionCookie";
+import { authenticateStaff } from "@/lib/staff";
+import { checkLogin, recordLoginFailure, recordLoginSuccess } from "@/lib/loginThrottle";
+import { recordLoginAttempt } from "@/lib/loginAttempts";
+import { clientIp } from "@/lib/clientIp";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+/**
+ * POST { login_id, password }
+ * スタッフごとのログイン。スタッフ未登録のときだけ ADMIN_PASSWORD で最初のオーナーを作れる。
+ * 失敗が続くと IP・アカウントごとに待ち時間が延び、一定回数でロック（429 + Retry-After）。
+ */
 export async function POST(req: NextRequest) {
   const body = await req.json().catch(() => ({}));
-  const input = String(body?.password ?? "");
-  const ok = input.length > 0 && input === process.env.ADMIN_PASSWORD;
+  const loginId = String(body?.login_id ?? "").trim();
+  const password = String(body?.password ?? "");
+  const ip = clientIp(req.headers);
+  const userAgent = req.headers.get("user-agent");
+  const subject = { ip, loginId };
+  const attempt = { login_id: loginId || null, ip, user_agent: userAgent };
 
-  if (!ok) {
-    return NextResponse.json({ ok: false, error: "パスワードが違います" }, { status: 401 });
+  let staff;
+  try {
+    const gate = await checkLogin(subject);
+    if (!gate.allowed) {
+      await recordLoginAttempt({ ...attempt, staff_id: null, result: "throttled" });
+      const minutes = Math.ceil(gate.retryAfterSec / 60);
+      const error = gate.locked
+        ? `ログインの失敗が続いたため、一時的にロックしています。${minutes}分後にもう一度お試しください`
+        : `ログインの試行が多すぎます。${gate.retryAfterSec}秒後にもう一度お試しください`;
+      return NextResponse.json(
+        { ok: false, error, retry_after: gate.retryAfterSec },
+        { status: 429, headers: { "Retry-After": String(gate.retryAfterSec) } },
+      );
+    }
+
+    staff = await authenticateStaff(loginId, password);
+    if (!staff) {
+      await recordLoginFailure(subject);
+      await recordLoginAttempt({ ...attempt, staff_id: null, result: "failed" });
+      return NextResponse.json({ ok: false, error: "ログインIDまたはパスワードが違います" }, { status: 401 });
+    }
+    await recordLoginSuccess(subject);
+    await recordLoginAttempt({ ...attempt, staff_id: staff.id, result: "success" });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+
+  // 既存セッションがあれば失効させてから新規発行（ローテーション）
+  const prev = req.cookies.get(SESSION_COOKIE)?.value;
+  if (prev) await revokeSession(prev);
+
+  let token: string;
+  try {
+    ({ token } = await createSession(staff.id, { userAgent, ip }));
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
   }
 
-  const res = NextResponse.json({ ok: true });
-  // 管理クッキーを付与（有効期限 7日）
-  res.cookies.set("admin_auth", "1", {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: false,        // 本番(https)では true 推奨
-    path: "/",
-    maxAge: 60 * 60 * 24 * 7,
-  });
+  const res = NextResponse.json({ ok: true, staff: { name: staff.name, role: staff.role } });
+  // 管理セッションのクッキーを付与（有効期限 7日・無操作タイムアウトはサーバ側で判定）
+  res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(SESSION_MAX_AGE_SEC));
   return res;
 }
 
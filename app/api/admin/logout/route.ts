@@ -1,18 +1,18 @@
 // app/api/admin/logout/route.ts
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { revokeSession } from "@/lib/session";
+import { SESSION_COOKIE, sessionCookieOptions } from "@/lib/sessionCookie";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function POST() {
+export async function POST(req: NextRequest) {
+  // サーバ側のセッションを失効
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (token) await revokeSession(token);
+
   const res = NextResponse.json({ ok: true });
   // クッキー破棄
-  res.cookies.set("admin_auth", "", {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: false,
-    path: "/",
-    maxAge: 0,
-  });
+  res.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
   return res;
 }
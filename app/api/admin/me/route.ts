@@ -0,0 +1,32 @@
+// app/api/admin/me/route.ts
+import { NextResponse } from "next/server";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import { listPinStaff } from "@/lib/devices";
+import { ROLE_LABELS, permissionsOf } from "@/lib/roles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * ログイン中のスタッフと権限（画面のボタンの出し分け用。判定そのものは各 API で行う）。
+ * 共有端末なら端末名・自動ロックの時刻・PIN で切り替えられるスタッフも返す（ロック中は staff が null）。
+ */
+export async function GET() {
+  const viewer = await requireViewer();
+  if (!viewer) return unauthorized();
+  const { staff, device } = viewer;
+  try {
+    return NextResponse.json(
+      {
+        ok: true,
+        staff: staff ? { ...staff, role_label: ROLE_LABELS[staff.role] } : null,
+        permissions: staff ? permissionsOf(staff.role) : [],
+        device: device ? { ...device, staff_options: await listPinStaff() } : null,
+      },
+      { status: 200 },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+// app/api/admin/menu/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { MenuItemPatchSchema } from "@/lib/menu";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** メニュー更新（部分更新）。売り切れの切り替えだけなら誰でも、それ以外は店長以上 */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = MenuItemPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const soldOutOnly = Object.keys(parsed.data).every((k) => k === "sold_out");
+  if (!soldOutOnly && !hasPermission(session, "manage_menu")) return forbidden();
+
+  const { data, error } = await supabaseAdmin
+    .from("menu_items")
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq("id", params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    // 存在しない持ち場（station_id）の指定
+    if (error.code === "23503") {
+      return NextResponse.json({ ok: false, error: "指定した持ち場がありません" }, { status: 400 });
+    }
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, item: data }, { status: 200 });
+}
+
+/** メニュー削除（過去の注文は明細に名前・価格を保存しているので影響なし） */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_menu")) return forbidden();
+
+  const { error } = await supabaseAdmin.from("menu_items").delete().eq("id", params.id);
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,52 @@
+// app/api/admin/menu/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, requireViewer, unauthorized } from "@/lib/auth";
+import { MenuItemSchema, listMenuItems } from "@/lib/menu";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** メニュー一覧（販売停止中も含む全件） */
+export async function GET() {
+  if (!(await requireViewer())) return unauthorized();
+  try {
+    const items = await listMenuItems();
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/** メニュー追加 */
+export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_menu")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = MenuItemSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("menu_items")
+    .insert({ ...parsed.data, category: parsed.data.category ?? null, options: parsed.data.options ?? [] })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23503") {
+      return NextResponse.json({ ok: false, error: "指定した持ち場がありません" }, { status: 400 });
+    }
+    const status = error.code === "23505" ? 409 : 500;
+    const msg = status === 409 ? "同じ ID の商品が既にあります" : error.message;
+    return NextResponse.json({ ok: false, error: msg }, { status });
+  }
+  return NextResponse.json({ ok: true, item: data }, { status: 200 });
+}
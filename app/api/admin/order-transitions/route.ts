@@ -0,0 +1,38 @@
+// app/api/admin/order-transitions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { TransitionOverrideSchema, getTransitions, saveTransitions } from "@/lib/orderTransitions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 現在のステータス遷移ルール */
+export async function GET() {
+  if (!(await requireAdmin())) return unauthorized();
+  const transitions = await getTransitions();
+  return NextResponse.json({ ok: true, transitions }, { status: 200 });
+}
+
+/** 遷移ルールの上書き（店長以上。書いた遷移元だけ既定値を置き換える。{} で既定に戻る） */
+export async function PUT(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "edit_order_rules")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = TransitionOverrideSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const transitions = await saveTransitions(parsed.data);
+    return NextResponse.json({ ok: true, transitions }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
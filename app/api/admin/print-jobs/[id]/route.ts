@@ -0,0 +1,30 @@
+// app/api/admin/print-jobs/[id]/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { requireAdmin, unauthorized } from "@/lib/auth";
+import { processPrintJobs, retryPrintJob } from "@/lib/printJobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** POST 失敗した印刷を送り直す */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await requireAdmin())) return unauthorized();
+
+  const id = Number(params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ ok: false, error: "invalid id" }, { status: 400 });
+  }
+  try {
+    if (!(await retryPrintJob(id))) {
+      return NextResponse.json({ ok: false, error: "失敗した印刷ではありません" }, { status: 409 });
+    }
+    after(() => processPrintJobs().catch((e) => console.error("[print_jobs] process failed:", e)));
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
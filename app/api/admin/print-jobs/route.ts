@@ -0,0 +1,41 @@
+// app/api/admin/print-jobs/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, requireViewer, unauthorized } from "@/lib/auth";
+import { isCronRequest } from "@/lib/cronAuth";
+import { listPrintJobs, processPrintJobs, type PrintJobStatus } from "@/lib/printJobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const STATUSES: PrintJobStatus[] = ["queued", "printing", "printed", "failed"];
+
+/** GET ?status=failed 印刷キュー（新しい順 100 件） */
+export async function GET(req: NextRequest) {
+  if (!(await requireViewer())) return unauthorized();
+  const status = req.nextUrl.searchParams.get("status") as PrintJobStatus | null;
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ ok: false, error: "status が不正です" }, { status: 400 });
+  }
+  try {
+    const items = await listPrintJobs({ status: status ?? undefined });
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/**
+ * POST 送る番の印刷を今すぐ送る（定期実行用。送り直しの予約が効かないサーバレス環境向け）。
+ * 定期実行からは Authorization: Bearer <CRON_SECRET> で、画面からは管理者のセッションで呼ぶ。
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronRequest(req.headers) && !(await requireAdmin())) return unauthorized();
+  try {
+    const result = await processPrintJobs();
+    return NextResponse.json({ ok: true, ...result }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+// app/api/admin/reports/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireAdmin, unauthorized } from "@/lib/auth";
+import { addDays, isDateString, jstDate } from "@/lib/jst";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 1回に集計できる最大日数 */
+const MAX_DAYS = 366;
+
+/**
+ * GET /api/admin/reports?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * 期間（日本時間・両端含む）の売上サマリー／日別／時間帯別／商品ランキング。
+ * 未指定なら直近 7 日。集計は DB 関数（supabase/migrations の report_*）で行う。
+ */
+export async function GET(req: NextRequest) {
+  if (!(await requireAdmin())) return unauthorized();
+
+  const { searchParams } = new URL(req.url);
+  const today = jstDate();
+  const to = searchParams.get("to") || today;
+  const from = searchParams.get("from") || (isDateString(to) ? addDays(to, -6) : "");
+
+  if (!isDateString(from) || !isDateString(to) || from > to) {
+    return NextResponse.json({ ok: false, error: "期間の指定が正しくありません" }, { status: 400 });
+  }
+  const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+  if (days > MAX_DAYS) {
+    return NextResponse.json(
+      { ok: false, error: `期間は ${MAX_DAYS} 日以内で指定してください` },
+      { status: 400 },
+    );
+  }
+
+  const args = { p_from: from, p_to: to };
+  const [summary, daily, hourly, topItems] = await Promise.all([
+    supabaseAdmin.rpc("report_summary", args).single(),
+    supabaseAdmin.rpc("report_daily", args),
+    supabaseAdmin.rpc("report_hourly", args),
+    supabaseAdmin.rpc("report_top_items", { ...args, p_limit: 20 }),
+  ]);
+
+  const error = summary.error ?? daily.error ?? hourly.error ?? topItems.error;
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+
+  const s = summary.data as {
+    orders: number;
+    cancelled: number;
+    revenue: number;
+    avg_completion_sec: number | null;
+  };
+  const placed = Number(s.orders) + Number(s.cancelled);
+
+  return NextResponse.json(
+    {
+      ok: true,
+      from,
+      to,
+      summary: {
+        orders: Number(s.orders),
+        cancelled: Number(s.cancelled),
+        revenue: Number(s.revenue),
+        average_order_value: s.orders > 0 ? Math.round(Number(s.revenue) / Number(s.orders)) : 0,
+        cancellation_rate: placed > 0 ? Number(s.cancelled) / placed : 0,
+        avg_completion_sec: s.avg_completion_sec == null ? null : Number(s.avg_completion_sec),
+      },
+      daily: daily.data ?? [],
+      hourly: hourly.data ?? [],
+      top_items: topItems.data ?? [],
+    },
+    { status: 200 },
+  );
+}
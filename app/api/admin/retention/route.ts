@@ -0,0 +1,99 @@
+// app/api/admin/retention/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, sessionActor, unauthorized } from "@/lib/auth";
+import { isCronRequest } from "@/lib/cronAuth";
+import { SYSTEM_ACTOR, recordOrderEvents, type Actor } from "@/lib/orderEvents";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 保存期間（日）。クリア済みでこれより古い注文を削除対象にする */
+const DEFAULT_RETENTION_DAYS = Math.max(Number(process.env.ORDER_RETENTION_DAYS ?? 400), 1);
+
+/** 1回の削除件数の上限（長時間ロックを避ける。残りは再実行で） */
+const BATCH_SIZE = 500;
+
+const BodySchema = z.object({
+  older_than_days: z.number().int().min(1).optional(),
+  dry_run: z.boolean().optional(),
+});
+
+/**
+ * アーカイブ済み注文の物理削除（定期実行用）。
+ * 定期実行からは Authorization: Bearer <CRON_SECRET> で、画面からはオーナーのセッションで呼ぶ。
+ * dry_run: true なら件数だけ返す。削除した注文は order_events に "deleted" を残す。
+ */
+export async function POST(req: NextRequest) {
+  let actor: Actor = SYSTEM_ACTOR;
+  if (!isCronRequest(req.headers)) {
+    const session = await requireAdmin();
+    if (!session) return unauthorized();
+    if (!hasPermission(session, "purge_orders")) return forbidden();
+    actor = sessionActor(session);
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = BodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const days = parsed.data.older_than_days ?? DEFAULT_RETENTION_DAYS;
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  if (parsed.data.dry_run) {
+    const { count, error } = await supabaseAdmin
+      .from("orders")
+      .select("*", { count: "exact", head: true })
+      .lt("cleared_at", cutoff);
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ ok: true, dry_run: true, cutoff, count: count ?? 0 }, { status: 200 });
+  }
+
+  const { data: targets, error: selErr } = await supabaseAdmin
+    .from("orders")
+    .select("id")
+    .lt("cleared_at", cutoff)
+    .order("cleared_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (selErr) {
+    return NextResponse.json({ ok: false, error: selErr.message }, { status: 500 });
+  }
+
+  const ids = (targets ?? []).map((t) => t.id);
+  let deleted: { id: string; order_no: string; status: string; cleared_at: string }[] = [];
+  if (ids.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from("orders")
+      .delete()
+      .in("id", ids)
+      .select("id, order_no, status, cleared_at");
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+    deleted = data ?? [];
+  }
+
+  await recordOrderEvents(
+    actor,
+    deleted.map((o) => ({
+      order_id: o.id,
+      order_no: o.order_no,
+      type: "deleted" as const,
+      old_value: { status: o.status, cleared_at: o.cleared_at },
+      new_value: { reason: `retention ${days}d` },
+    })),
+  );
+
+  return NextResponse.json(
+    { ok: true, cutoff, deleted: deleted.length, has_more: ids.length === BATCH_SIZE },
+    { status: 200 },
+  );
+}
@@ -0,0 +1,54 @@
+// app/api/admin/staff/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { StaffPatchSchema, deleteStaff, updateStaff } from "@/lib/staff";
+import { unlockAccount } from "@/lib/loginThrottle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** スタッフの更新（名前・役割・有効/無効・パスワード。オーナーのみ。パスワード再設定でロック解除） */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = StaffPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: parsed.error.issues[0]?.message ?? "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const result = await updateStaff(params.id, parsed.data);
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error, code: result.code }, { status: result.status });
+  }
+  // パスワードを再設定したらロックも解除する
+  if (parsed.data.password) await unlockAccount(result.staff.login_id);
+  return NextResponse.json({ ok: true, item: result.staff }, { status: 200 });
+}
+
+/** スタッフの削除（オーナーのみ。自分自身は消せない） */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+  if (params.id === session.staff.id) {
+    return NextResponse.json({ ok: false, error: "自分自身は削除できません" }, { status: 409 });
+  }
+
+  const result = await deleteStaff(params.id);
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error, code: result.code }, { status: result.status });
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
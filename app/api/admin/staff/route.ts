@@ -0,0 +1,43 @@
+// app/api/admin/staff/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { StaffCreateSchema, createStaff, listStaff } from "@/lib/staff";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** スタッフ一覧（オーナーのみ） */
+export async function GET() {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+  try {
+    const items = await listStaff();
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/** スタッフ追加（オーナーのみ） */
+export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_staff")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = StaffCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: parsed.error.issues[0]?.message ?? "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const result = await createStaff(parsed.data);
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error, code: result.code }, { status: result.status });
+  }
+  return NextResponse.json({ ok: true, item: result.staff }, { status: 200 });
+}
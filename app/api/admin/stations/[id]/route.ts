@@ -0,0 +1,57 @@
+// app/api/admin/stations/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { StationPatchSchema } from "@/lib/kitchen";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 持ち場の更新（名前・並び順） */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_stations")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = StationPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("stations")
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq("id", params.id)
+    .select()
+    .maybeSingle();
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, item: data }, { status: 200 });
+}
+
+/** 持ち場の削除（割り当てていた商品は「割り当てなし」になる。注文済みの明細はそのまま） */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_stations")) return forbidden();
+
+  const { error } = await supabaseAdmin.from("stations").delete().eq("id", params.id);
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,44 @@
+// app/api/admin/stations/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, requireViewer, unauthorized } from "@/lib/auth";
+import { StationSchema, listStations } from "@/lib/kitchen";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 持ち場一覧 */
+export async function GET() {
+  if (!(await requireViewer())) return unauthorized();
+  try {
+    const items = await listStations();
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/** 持ち場追加 */
+export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_stations")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = StationSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabaseAdmin.from("stations").insert(parsed.data).select().single();
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500;
+    const msg = status === 409 ? "同じ ID の持ち場が既にあります" : error.message;
+    return NextResponse.json({ ok: false, error: msg }, { status });
+  }
+  return NextResponse.json({ ok: true, item: data }, { status: 200 });
+}
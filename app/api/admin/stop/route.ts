@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, requireViewer, sessionActor, unauthorized } from "@/lib/auth";
+import { emitWebhooks } from "@/lib/webhooks";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -8,6 +10,7 @@ const TABLE = "app_settings";
 const KEY = "order_stop";
 
 export async function GET() {
+  if (!(await requireViewer())) return unauthorized();
   const { data, error } = await supabaseAdmin
     .from(TABLE)
     .select("value")
@@ -22,7 +25,11 @@ export async function GET() {
 }
 
 export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "toggle_stop")) return forbidden();
   const { stopped } = await req.json().catch(() => ({}));
+  const { data: prev } = await supabaseAdmin.from(TABLE).select("value").eq("key", KEY).maybeSingle();
   const { data, error } = await supabaseAdmin
     .from(TABLE)
     .upsert({ key: KEY, value: { stopped: !!stopped } }, { onConflict: "key" })
@@ -32,5 +39,13 @@ export async function POST(req: NextRequest) {
   if (error) {
     return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
   }
+
+  // 実際に切り替わったときだけ外部連携に知らせる
+  if (!!prev?.value?.stopped !== !!stopped) {
+    const actor = sessionActor(session);
+    emitWebhooks([
+      { type: "order_stop.changed", data: { stopped: !!stopped, actor: { type: actor.type, name: actor.name ?? null } } },
+    ]);
+  }
   return NextResponse.json({ ok: true, stopped: !!data?.value?.stopped }, { status: 200 });
 }
@@ -0,0 +1,34 @@
+// app/api/admin/tables/[id]/qr/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requireAdmin, unauthorized } from "@/lib/auth";
+import { tableQrSvg } from "@/lib/tables";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** テーブルの QR コード（SVG 画像） */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await requireAdmin())) return unauthorized();
+
+  const { data, error } = await supabaseAdmin
+    .from("tables")
+    .select("id, token_version")
+    .eq("id", params.id)
+    .maybeSingle();
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+  }
+
+  const svg = await tableQrSvg(data);
+  return new NextResponse(svg, {
+    status: 200,
+    headers: { "Content-Type": "image/svg+xml", "Cache-Control": "private, no-store" },
+  });
+}
@@ -0,0 +1,31 @@
+// app/api/admin/tables/[id]/regenerate/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { customerOrderUrl, regenerateTableToken } from "@/lib/tables";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** QR の再発行（流出時など。古い QR からの注文は以後拒否される） */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_tables")) return forbidden();
+
+  try {
+    const table = await regenerateTableToken(params.id);
+    if (!table) {
+      return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { ok: true, item: { ...table, order_url: customerOrderUrl(table) } },
+      { status: 200 },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
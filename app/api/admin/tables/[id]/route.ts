@@ -0,0 +1,60 @@
+// app/api/admin/tables/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { TablePatchSchema } from "@/lib/tables";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** テーブル更新（部分更新） */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_tables")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = TablePatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("tables")
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq("id", params.id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500;
+    const msg = status === 409 ? "同じコードのテーブルが既にあります" : error.message;
+    return NextResponse.json({ ok: false, error: msg }, { status });
+  }
+  if (!data) {
+    return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, item: data }, { status: 200 });
+}
+
+/** テーブル削除（過去の注文は table_label が残る） */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_tables")) return forbidden();
+
+  const { error } = await supabaseAdmin.from("tables").delete().eq("id", params.id);
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
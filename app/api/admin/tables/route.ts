@@ -0,0 +1,47 @@
+// app/api/admin/tables/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, requireViewer, unauthorized } from "@/lib/auth";
+import { TableSchema, customerOrderUrl, listTables } from "@/lib/tables";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** テーブル一覧（QR 用の注文 URL 付き） */
+export async function GET() {
+  if (!(await requireViewer())) return unauthorized();
+  try {
+    const tables = await listTables();
+    return NextResponse.json(
+      { ok: true, items: tables.map((t) => ({ ...t, order_url: customerOrderUrl(t) })) },
+      { status: 200 },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/** テーブル追加 */
+export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_tables")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = TableSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabaseAdmin.from("tables").insert(parsed.data).select().single();
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500;
+    const msg = status === 409 ? "同じコードのテーブルが既にあります" : error.message;
+    return NextResponse.json({ ok: false, error: msg }, { status });
+  }
+  return NextResponse.json({ ok: true, item: data }, { status: 200 });
+}
@@ -0,0 +1,53 @@
+// app/api/admin/webhooks/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { WebhookEndpointPatchSchema, deleteWebhookEndpoint, updateWebhookEndpoint, webhookUrlError } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 送り先の更新（URL・説明・出来事・有効/無効。rotate_secret: true で署名の鍵を作り直す） */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_webhooks")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = WebhookEndpointPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: parsed.error.issues[0]?.message ?? "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const urlError = parsed.data.url ? await webhookUrlError(parsed.data.url) : null;
+  if (urlError) return NextResponse.json({ ok: false, error: urlError }, { status: 400 });
+  try {
+    const item = await updateWebhookEndpoint(params.id, parsed.data);
+    if (!item) return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, item }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/** 送り先の削除（配信ログも消える） */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_webhooks")) return forbidden();
+  try {
+    await deleteWebhookEndpoint(params.id);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
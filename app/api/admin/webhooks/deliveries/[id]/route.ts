@@ -0,0 +1,31 @@
+// app/api/admin/webhooks/deliveries/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { redeliverWebhook } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** POST 配信を手動で再送する（送り切れなかったもの・送信済みのもの） */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_webhooks")) return forbidden();
+
+  const id = Number(params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ ok: false, error: "invalid id" }, { status: 400 });
+  }
+  try {
+    if (!(await redeliverWebhook(id))) {
+      return NextResponse.json({ ok: false, error: "送信待ち・送信中の配信は再送できません" }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/admin/webhooks/deliveries/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { isCronRequest } from "@/lib/cronAuth";
+import { listWebhookDeliveries, processWebhookDeliveries, type WebhookDeliveryStatus } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const STATUSES: WebhookDeliveryStatus[] = ["pending", "delivering", "delivered", "dead"];
+
+/** GET ?endpoint=<id>&status=dead 配信ログ（新しい順 100 件） */
+export async function GET(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_webhooks")) return forbidden();
+
+  const sp = req.nextUrl.searchParams;
+  const status = sp.get("status") as WebhookDeliveryStatus | null;
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ ok: false, error: "status が不正です" }, { status: 400 });
+  }
+  try {
+    const items = await listWebhookDeliveries({ endpointId: sp.get("endpoint") || undefined, status: status ?? undefined });
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/**
+ * POST 送る番の配信を今すぐ送る（定期実行用。送り直しの予約が効かないサーバレス環境向け）。
+ * 定期実行からは Authorization: Bearer <CRON_SECRET> で、画面からはオーナーのセッションで呼ぶ。
+ */
+export async function POST(req: NextRequest) {
+  if (!isCronRequest(req.headers)) {
+    const session = await requireAdmin();
+    if (!session) return unauthorized();
+    if (!hasPermission(session, "manage_webhooks")) return forbidden();
+  }
+  try {
+    const result = await processWebhookDeliveries();
+    return NextResponse.json({ ok: true, ...result }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
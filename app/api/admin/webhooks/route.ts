@@ -0,0 +1,46 @@
+// app/api/admin/webhooks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, unauthorized } from "@/lib/auth";
+import { WebhookEndpointSchema, createWebhookEndpoint, listWebhookEndpoints, webhookUrlError } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Webhook の送り先一覧（オーナーのみ。署名の鍵も返す） */
+export async function GET() {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_webhooks")) return forbidden();
+  try {
+    const items = await listWebhookEndpoints();
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+/** 送り先の追加（署名の鍵はサーバで作る） */
+export async function POST(req: NextRequest) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "manage_webhooks")) return forbidden();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = WebhookEndpointSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: parsed.error.issues[0]?.message ?? "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const urlError = parsed.data.url ? await webhookUrlError(parsed.data.url) : null;
+  if (urlError) return NextResponse.json({ ok: false, error: urlError }, { status: 400 });
+  try {
+    const item = await createWebhookEndpoint(parsed.data);
+    return NextResponse.json({ ok: true, item }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
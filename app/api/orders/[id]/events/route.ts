@@ -0,0 +1,24 @@
+// app/api/orders/[id]/events/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import { listOrderEvents } from "@/lib/orderEvents";
+import { UUIDish } from "@/lib/uuid";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** 注文の履歴（作成・ステータス変更・メモ編集・削除。管理者のみ） */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await requireViewer())) return unauthorized();
+  if (!UUIDish.test(params.id)) return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+  try {
+    const items = await listOrderEvents(params.id);
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/orders/[id]/items/[index]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { forbidden, hasPermission, requireAdmin, sessionActor, unauthorized } from "@/lib/auth";
+import { LinePatchSchema, updateOrderLine } from "@/lib/orderLines";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * PATCH /api/orders/[id]/items/[index] { status: "pending" | "served" | "cancelled", reason? }
+ * 明細 1 行の提供・取消（管理者のみ）。取消は理由必須で、合計金額を計算し直す。
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; index: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+
+  const index = Number(params.index);
+  if (!Number.isInteger(index) || index < 0) {
+    return NextResponse.json({ ok: false, error: "invalid index" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = LinePatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: parsed.error.issues[0]?.message ?? "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  if (parsed.data.status === "cancelled" && !hasPermission(session, "cancel_order")) return forbidden();
+
+  const result = await updateOrderLine(params.id, index, parsed.data, sessionActor(session));
+  if (!result.ok) {
+    return NextResponse.json(
+      { ok: false, error: result.error, code: result.code },
+      { status: result.status },
+    );
+  }
+  return NextResponse.json({ ok: true, item: result.order }, { status: 200 });
+}
@@ -0,0 +1,70 @@
+// app/api/orders/[id]/print/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { z } from "zod";
+import { requireAdmin, requireViewer, sessionActor, unauthorized } from "@/lib/auth";
+import { enqueueOrderPrints, listPrintJobs, loadPrintOrder, orderPrintDocs, processPrintJobs } from "@/lib/printJobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/orders/[id]/print
+ * 注文の印刷内容（ブラウザ印刷用）と、この注文の印刷キューの状態。
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await requireViewer())) return unauthorized();
+  try {
+    const order = await loadPrintOrder(params.id);
+    if (!order) return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+    const [docs, jobs] = await Promise.all([orderPrintDocs(order), listPrintJobs({ orderId: order.id })]);
+    return NextResponse.json({ ok: true, order_no: order.order_no, docs, jobs }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+const ReprintSchema = z.object({
+  kind: z.enum(["kitchen", "receipt"]).optional(),
+  station: z.string().max(64).nullable().optional(),
+});
+
+/**
+ * POST /api/orders/[id]/print { kind?, station? }
+ * プリンタで刷り直す（指定がなければ伝票とレシート）。プリンタが未設定なら queued: 0 を返す（ブラウザ印刷を使う）。
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = ReprintSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const order = await loadPrintOrder(params.id);
+    if (!order) return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+    const queued = await enqueueOrderPrints(order, {
+      kinds: parsed.data.kind ? [parsed.data.kind] : undefined,
+      station: parsed.data.station,
+      reprint: true,
+      requestedBy: sessionActor(session).name,
+    });
+    if (queued > 0) after(() => processPrintJobs().catch((e) => console.error("[print_jobs] process failed:", e)));
+    return NextResponse.json({ ok: true, queued }, { status: 200 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
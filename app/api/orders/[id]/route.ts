@@ -2,47 +2,41 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { corsHeaders } from "@/lib/cors";
+import { forbidden, hasPermission, requireAdmin, requireViewer, sessionActor, unauthorized } from "@/lib/auth";
+import { recordOrderEvents } from "@/lib/orderEvents";
+import { normalizeStatus } from "@/lib/orderStatus";
+import { transitionOrder } from "@/lib/orderTransitions";
+import { PUBLIC_TOKEN_PARAM, tokenMatches } from "@/lib/publicOrder";
+import { UUIDish } from "@/lib/uuid";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 /** =========================
- * CORS（必要に応じて許可リストに変更可）
+ * CORS（許可オリジンは lib/cors.ts）
  * ========================= */
-function corsHeaders(req: NextRequest) {
-  const origin = req.headers.get("origin") ?? "";
-  const allowOrigin = origin; // 必要なら許可ドメインのみに絞る
-  const reqHdrs =
-    req.headers.get("access-control-request-headers") ?? "content-type";
-  return {
-    "Access-Control-Allow-Origin": allowOrigin,
-    Vary: "Origin",
-    "Access-Control-Allow-Credentials": "True",
-    "Access-Control-Allow-Methods": "GET, PATCH, OPTIONS",
-    "Access-Control-Allow-Headers": reqHdrs,
-    "Access-Control-Max-Age": "600",
-  };
+function cors(req: NextRequest) {
+  return corsHeaders(req.headers.get("origin"), { methods: "GET, PATCH, OPTIONS" });
 }
 
 export async function OPTIONS(req: NextRequest) {
-  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+  return new NextResponse(null, { status: 204, headers: cors(req) });
 }
 
-/** UUID らしさの簡易判定 */
-const UUIDish =
-  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
 /** =========================================
  * GET: params.id を
  *  1) order_no（受付番号）として検索
  *  2) 見つからず UUID らしければ id でも検索
+ * 管理者以外は ?t=<公開トークン>（POST の応答の order.public_token）が必須。
+ * 一致しなければ存在しないのと同じ 404 を返す（番号の総当たり対策）。
  * 返り値は { ok: true, item: {...} } に統一
  * ========================================= */
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const headers = corsHeaders(req);
+  const headers = cors(req);
   const key = params.id;
 
   // 1) order_no で検索
@@ -71,7 +65,9 @@ export async function GET(
       { status: 500, headers }
     );
   }
-  if (!data) {
+  const isAdmin = Boolean(await requireViewer());
+  const token = req.nextUrl.searchParams.get(PUBLIC_TOKEN_PARAM) ?? "";
+  if (!data || (!isAdmin && !tokenMatches(data.public_token, token))) {
     return NextResponse.json(
       { ok: false, error: "not found" },
       { status: 404, headers }
@@ -82,17 +78,36 @@ export async function GET(
 }
 
 /** =========================
- * PATCH: ステータス更新（既存仕様踏襲）
+ * PATCH: ステータス・メモ更新（管理者のみ。キャンセルは cancel_order 権限が必要）
+ * 遷移ルールは lib/orderStatus.ts（app_settings で上書き可）。
+ * 旧クライアントの "completed" は "served" として受け付ける。
+ * 変更は order_events に記録する。
  * ========================= */
-const PatchSchema = z.object({
-  status: z.enum(["completed", "cancelled", "pending"]),
-});
+const PatchSchema = z
+  .object({
+    status: z
+      .string()
+      .transform((s, ctx) => {
+        const st = normalizeStatus(s);
+        if (!st) {
+          ctx.addIssue({ code: "custom", message: "unknown status" });
+          return z.NEVER;
+        }
+        return st;
+      })
+      .optional(),
+    note: z.string().max(500).nullable().optional(),
+  })
+  .refine((v) => v.status !== undefined || v.note !== undefined, "status か note が必要です");
 
 export async function PATCH(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const headers = corsHeaders(req);
+  const headers = cors(req);
+  const session = await requireAdmin();
+  if (!session) return unauthorized(headers);
+  const actor = sessionActor(session);
   const idOrNo = params.id;
 
   let body: unknown;
@@ -112,22 +127,63 @@ export async function PATCH(
       { status: 400, headers }
     );
   }
-
-  const { status } = parsed.data;
+  // キャンセルは役割で制限（lib/roles.ts）
+  if (parsed.data.status === "cancelled" && !hasPermission(session, "cancel_order")) {
+    return forbidden(headers);
+  }
 
   // UUID なら id、そうでなければ order_no で更新
-  const col = UUIDish.test(idOrNo) ? "id" : "order_no";
-  const { error } = await supabaseAdmin
-    .from("orders")
-    .update({ status })
-    .eq(col, idOrNo);
+  const column = UUIDish.test(idOrNo) ? "id" : "order_no";
+  let item: Record<string, unknown> | null = null;
 
-  if (error) {
-    return NextResponse.json(
-      { ok: false, error: error.message },
-      { status: 500, headers }
-    );
+  // メモ編集
+  if (parsed.data.note !== undefined) {
+    const note = parsed.data.note?.trim() || null;
+    const { data: cur, error } = await supabaseAdmin
+      .from("orders")
+      .select("id, order_no, note")
+      .eq(column, idOrNo)
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500, headers });
+    }
+    if (!cur) {
+      return NextResponse.json({ ok: false, error: "not found" }, { status: 404, headers });
+    }
+    if ((cur.note ?? null) !== note) {
+      const { data: updated, error: upErr } = await supabaseAdmin
+        .from("orders")
+        .update({ note })
+        .eq("id", cur.id)
+        .select()
+        .single();
+      if (upErr) {
+        return NextResponse.json({ ok: false, error: upErr.message }, { status: 500, headers });
+      }
+      await recordOrderEvents(actor, [
+        {
+          order_id: cur.id,
+          order_no: cur.order_no,
+          type: "note_changed",
+          old_value: { note: cur.note ?? null },
+          new_value: { note },
+        },
+      ]);
+      item = updated;
+    }
+  }
+
+  // ステータス遷移
+  if (parsed.data.status !== undefined) {
+    const result = await transitionOrder({ column, value: idOrNo }, parsed.data.status, actor);
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, error: result.error, code: result.code, allowed: result.allowed },
+        { status: result.status, headers }
+      );
+    }
+    item = result.order;
   }
 
-  return NextResponse.json({ ok: true }, { status: 200, headers });
+  return NextResponse.json({ ok: true, item }, { status: 200, headers });
 }
@@ -0,0 +1,54 @@
+// app/api/orders/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, unauthorized } from "@/lib/auth";
+import { addDays, isDateString, jstDate } from "@/lib/jst";
+import { exportCsv, exportXlsx, type ExportSheet } from "@/lib/orderExport";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/orders/export?format=csv|xlsx&sheet=orders|items&from=YYYY-MM-DD&to=YYYY-MM-DD&status=
+ * 会計用の注文出力（管理者のみ）。期間は日本時間・両端含む（未指定なら直近 7 日）。
+ * CSV は sheet で注文単位／明細単位を選ぶ。Excel は両方のシートを 1 ファイルに入れる。
+ */
+export async function GET(req: NextRequest) {
+  if (!(await requireAdmin())) return unauthorized();
+
+  const { searchParams } = new URL(req.url);
+  const format = searchParams.get("format") ?? "csv";
+  const sheet = (searchParams.get("sheet") ?? "orders") as ExportSheet;
+  const to = searchParams.get("to") || jstDate();
+  const from = searchParams.get("from") || (isDateString(to) ? addDays(to, -6) : "");
+  const status = searchParams.get("status") ?? "";
+
+  if (format !== "csv" && format !== "xlsx") {
+    return NextResponse.json({ ok: false, error: "format は csv か xlsx です" }, { status: 400 });
+  }
+  if (sheet !== "orders" && sheet !== "items") {
+    return NextResponse.json({ ok: false, error: "sheet は orders か items です" }, { status: 400 });
+  }
+  if (!isDateString(from) || !isDateString(to) || from > to) {
+    return NextResponse.json({ ok: false, error: "期間の指定が正しくありません" }, { status: 400 });
+  }
+
+  const filter = { from, to, status };
+  const range = from === to ? from : `${from}_${to}`;
+
+  if (format === "xlsx") {
+    return new Response(exportXlsx(filter), {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="orders_${range}.xlsx"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+  return new Response(exportCsv(sheet, filter), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${sheet === "orders" ? "orders" : "order_items"}_${range}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,30 +1,46 @@
 // app/api/orders/reset/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { forbidden, hasPermission, requireAdmin, sessionActor, unauthorized } from "@/lib/auth";
+import { recordOrderEvents } from "@/lib/orderEvents";
+import { DONE_STATUSES } from "@/lib/orderStatus";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 // POST /api/orders/reset
+// 処理済みをボードから片付ける（削除はせず cleared_at を立ててアーカイブ）。
+// 実データの削除は /api/admin/retention（保存期間を過ぎたものだけ）で行う。
 export async function POST(_req: NextRequest) {
-  // ★ Next.js 15: cookies() は Promise なので await が必要
-  const auth = (await cookies()).get("admin_auth")?.value;
-  if (auth !== "1") {
-    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
-  }
+  const session = await requireAdmin();
+  if (!session) return unauthorized();
+  if (!hasPermission(session, "clear_orders")) return forbidden();
 
-  // 未処理以外（= 完了/キャンセル）を削除
-  const { error } = await supabaseAdmin
+  // 処理済み（= 提供済/キャンセル）でまだクリアしていないもの
+  const clearedAt = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
     .from("orders")
-    .delete()
-    .in("status", ["completed", "cancelled"]);
+    .update({ cleared_at: clearedAt })
+    .in("status", DONE_STATUSES)
+    .is("cleared_at", null)
+    .select("id, order_no, status");
 
   if (error) {
     return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
   }
 
-  return NextResponse.json({ ok: true }, { status: 200 });
+  await recordOrderEvents(
+    sessionActor(session),
+    (data ?? []).map((o) => ({
+      order_id: o.id,
+      order_no: o.order_no,
+      type: "cleared" as const,
+      old_value: { status: o.status },
+      new_value: { cleared_at: clearedAt },
+    })),
+  );
+
+  return NextResponse.json({ ok: true, cleared: data?.length ?? 0 }, { status: 200 });
 }
 
 /** 明示的にその他メソッドは 405 を返す */
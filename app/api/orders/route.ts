@@ -1,54 +1,38 @@
 // app/api/orders/route.ts
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { z } from "zod";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { corsHeaders } from "@/lib/cors";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import {
+  MAX_KEY_LENGTH,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  hashRequestBody,
+  releaseIdempotencyKey,
+} from "@/lib/idempotency";
+import { resolveOrderLines } from "@/lib/menu";
+import { computeTotals } from "@/lib/pricing";
+import { resolveTableToken, type DiningTable } from "@/lib/tables";
+import { ACTIVE_STATUSES, DONE_STATUSES, normalizeStatus } from "@/lib/orderStatus";
+import { CUSTOMER_ACTOR, recordOrderEvents } from "@/lib/orderEvents";
+import { newPublicToken, publicOrderPath } from "@/lib/publicOrder";
+import { nextOrderNumber } from "@/lib/orderNumber";
+import { etagMatches, readOrderDelta, weakEtag } from "@/lib/orderSync";
+import { ORDER_SORTS, normalizeSort, rangeBoundary, searchTerms } from "@/lib/orderQuery";
+import { enqueueOrderPrints, processPrintJobs } from "@/lib/printJobs";
+import type { PrintOrder } from "@/lib/printDoc";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-// ---- CORS 設定 ----
-const THIS_ORIGIN =
-  process.env.NEXT_PUBLIC_SITE_ORIGIN || "http://localhost:3000";
-
-// 固定許可 + Vercel のお客様アプリ（プレビュー含む）を許可
-const FIXED_ALLOW = new Set<string>([
-  "http://localhost:3000",
-  THIS_ORIGIN, // Render の本番 URL（NEXT_PUBLIC_SITE_ORIGIN）
-  "https://qr-order-sigma.vercel.app", // 本番のお客様サイト
-]);
-
-function isAllowedOrigin(origin: string | null): string {
-  if (!origin) return "";
-  if (FIXED_ALLOW.has(origin)) return origin;
-  // プレビュー用（例: https://qr-order-xxxxx-rions-projects-...vercel.app）
-  try {
-    const u = new URL(origin);
-    if (
-      u.protocol === "https:" &&
-      u.hostname.endsWith(".vercel.app") &&
-      u.hostname.startsWith("qr-order-")
-    ) {
-      return origin;
-    }
-  } catch {}
-  return "";
-}
-
-function corsHeaders(origin: string | null) {
-  const allow = isAllowedOrigin(origin);
-  return {
-    "Access-Control-Allow-Origin": allow,
-    "Access-Control-Allow-Credentials": "true",
-    "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Idempotency-Key",
-    Vary: "Origin",
-  };
-}
+// ---- CORS 設定（許可オリジンは lib/cors.ts）----
+const CORS = { methods: "GET, POST, PATCH, OPTIONS", headers: "Content-Type, Idempotency-Key" };
 
 export async function OPTIONS(req: NextRequest) {
   return new NextResponse(null, {
     status: 204,
-    headers: corsHeaders(req.headers.get("origin")),
+    headers: corsHeaders(req.headers.get("origin"), CORS),
   });
 }
 
@@ -63,43 +47,136 @@ async function isStopped() {
   return Boolean(data?.value?.stopped);
 }
 
-// ---- GET /api/orders （一覧）----
+/** 本文の ETag を付けて返す。If-None-Match が一致すれば 304（本文なし） */
+function withEtag(req: NextRequest, body: Record<string, unknown>, headers: HeadersInit) {
+  const etag = weakEtag(body);
+  const h = { ...headers, ETag: etag, "Cache-Control": "private, no-cache" };
+  if (etagMatches(req.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers: h });
+  }
+  return NextResponse.json(body, { status: 200, headers: h });
+}
+
+async function countPending() {
+  const { count } = await supabaseAdmin
+    .from("orders")
+    .select("*", { count: "exact", head: true })
+    .eq("status", "pending");
+  return count ?? 0;
+}
+
+// ---- GET /api/orders （一覧・管理者のみ）----
+// 絞り込み：status / archived / table / q（注文番号・メモ・商品名）/ from・to（日付 or 日時、日本時間）/ item（商品 ID）
+// 並び順：sort（lib/orderQuery.ts の ORDER_SORTS）。ページは limit / offset。
+// updated_since=<前回の cursor> を付けると差分だけ返す（items は変わった注文、deleted_ids は削除された注文）。
+// 差分はテーブル以外の絞り込みをかけないので、画面側で今の絞り込みに入るかを判定して出し入れする。
 export async function GET(req: NextRequest) {
-  const headers = corsHeaders(req.headers.get("origin"));
+  const headers = corsHeaders(req.headers.get("origin"), CORS);
+  if (!(await requireViewer())) return unauthorized(headers);
   try {
     const { searchParams } = new URL(req.url);
+    const table = searchParams.get("table");
+    if (table && !z.string().uuid().safeParse(table).success) {
+      return NextResponse.json({ ok: false, error: "table が不正です" }, { status: 400, headers });
+    }
+
+    // ---- 差分 ----
+    const since = searchParams.get("updated_since");
+    if (since) {
+      if (Number.isNaN(Date.parse(since))) {
+        return NextResponse.json({ ok: false, error: "updated_since が不正です" }, { status: 400, headers });
+      }
+      const delta = await readOrderDelta(since, { table });
+      if (delta.truncated) {
+        return withEtag(req, { ok: true, delta: true, truncated: true, items: [], deleted_ids: [], cursor: since }, headers);
+      }
+      // 新しい変化がなければ件数も数えない（本文が毎回同じになり 304 で返せる）。
+      // 重ねて読んだ分は毎回 items に入るので、items の有無では判定しない
+      const changed = delta.advanced;
+      return withEtag(
+        req,
+        {
+          ok: true,
+          delta: true,
+          items: delta.items,
+          deleted_ids: delta.deleted_ids,
+          cursor: delta.cursor,
+          ...(changed ? { pending_count: await countPending() } : {}),
+        },
+        headers,
+      );
+    }
+
+    // ---- 全件（ページ単位） ----
     const limit = Math.min(Number(searchParams.get("limit") ?? 50), 200);
     const offset = Math.max(Number(searchParams.get("offset") ?? 0), 0);
-    const status = searchParams.get("status") as
-      | "pending"
-      | "completed"
-      | "cancelled"
-      | ""
-      | null;
+    // status: 個別ステータス / active（進行中）/ done（処理済み）
+    const statusParam = searchParams.get("status") ?? "";
+
+    const sort = ORDER_SORTS[normalizeSort(searchParams.get("sort"))];
 
     let q = supabaseAdmin
       .from("orders")
       .select("*", { count: "exact" })
-      .order("created_at", { ascending: false })
+      .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+      .order("id", { ascending: sort.ascending }) // 同値のときもページ間で順序を固定
       .range(offset, offset + limit - 1);
 
-    if (status === "pending" || status === "completed" || status === "cancelled") {
-      q = q.eq("status", status);
+    if (statusParam === "active") {
+      q = q.in("status", ACTIVE_STATUSES);
+    } else if (statusParam === "done") {
+      q = q.in("status", DONE_STATUSES);
+    } else if (statusParam) {
+      const status = normalizeStatus(statusParam);
+      if (status) q = q.eq("status", status);
+    }
+    // アーカイブ（処理済みクリア済み）：既定は除外、include で含める、only でアーカイブのみ
+    const archived = searchParams.get("archived");
+    if (archived === "only") q = q.not("cleared_at", "is", null);
+    else if (archived !== "include") q = q.is("cleared_at", null);
+
+    // テーブルで絞り込み
+    if (table) q = q.eq("table_id", table);
+
+    // フリーワード（search_text は注文番号・メモ・商品名を小文字で連結した生成列）
+    // PostgREST は値の * をすべて % に置き換える（\* でも逃がせない）ので、* は 1 文字の _ にして範囲を広げない
+    for (const term of searchTerms(searchParams.get("q"))) {
+      const pattern = term.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/\*/g, "_");
+      q = q.ilike("search_text", `%${pattern}%`);
     }
+    // 期間（日本時間）
+    const from = rangeBoundary(searchParams.get("from"), "from");
+    const to = rangeBoundary(searchParams.get("to"), "to");
+    if (from) q = q.gte("created_at", from);
+    if (to) q = q.lt("created_at", to);
+    // 商品 ID を含む注文
+    const item = searchParams.get("item");
+    if (item) q = q.contains("items", [{ id: item }]);
+
     const { data, error, count } = await q;
     if (error) {
       return NextResponse.json({ ok: false, error: error.message }, { status: 500, headers });
     }
 
-    // 未処理件数も同時に返す
-    const { count: pendingCount } = await supabaseAdmin
+    // 次回の差分の起点：全注文で一番新しい更新時刻（アプリサーバの時計は使わない）
+    const { data: latest } = await supabaseAdmin
       .from("orders")
-      .select("*", { count: "exact", head: true })
-      .eq("status", "pending");
+      .select("updated_at")
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    return NextResponse.json(
-      { ok: true, items: data ?? [], total_count: count ?? 0, pending_count: pendingCount ?? 0 },
-      { status: 200, headers },
+    // 未処理件数も同時に返す
+    return withEtag(
+      req,
+      {
+        ok: true,
+        items: data ?? [],
+        total_count: count ?? 0,
+        pending_count: await countPending(),
+        cursor: latest?.updated_at ?? new Date(0).toISOString(),
+      },
+      headers,
     );
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -108,83 +185,200 @@ export async function GET(req: NextRequest) {
 }
 
 // ---- POST /api/orders （作成・お客様サイトからの送信）----
+// 商品名・価格はクライアントの値を使わず menu_items から引く（送られてきても無視）
 const ItemSchema = z.object({
   id: z.string().min(1),
-  name: z.string().min(1),
-  qty: z.number().int().positive(),
-  price: z.number().nonnegative().optional(),
+  qty: z.number().int().positive().max(99),
+  options: z.array(z.string().min(1)).max(30).optional(),
 });
 const CreateSchema = z.object({
   items: z.array(ItemSchema).min(1),
   note: z.string().max(500).optional(),
+  // QR の URL に埋め込まれた署名付きテーブルトークン
+  table_token: z.string().max(200).optional(),
 });
 
-function yyyymmdd(d = new Date()) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${y}${m}${dd}`;
-}
-function random4() {
-  return String(Math.floor(Math.random() * 10000)).padStart(4, "0");
-}
+/** テーブルトークン必須にするか（QR 以外からの注文を受けない店舗向け） */
+const REQUIRE_TABLE_TOKEN = process.env.REQUIRE_TABLE_TOKEN === "true";
 
-export async function POST(req: NextRequest) {
-  const headers = corsHeaders(req.headers.get("origin"));
+type CreateResult = { status: number; body: Record<string, unknown> };
 
-  // 停止中なら 403（必ず CORS ヘッダ付きで返す）
+/**
+ * 注文作成の本体（応答内容を返す。冪等キーの保存のため NextResponse にはしない）
+ * origin は注文状況ページ（/o/[order_no]）の URL を組み立てるためのこのアプリのオリジン。
+ */
+async function createOrder(body: unknown, origin: string): Promise<CreateResult> {
+  // 停止中なら 403
   if (await isStopped()) {
-    return NextResponse.json(
-      { ok: false, error: "只今ご注文を停止しています。再開までお待ちください。" },
-      { status: 403, headers },
-    );
+    return {
+      status: 403,
+      body: { ok: false, error: "只今ご注文を停止しています。再開までお待ちください。" },
+    };
+  }
+
+  const parsed = CreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      body: { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
+    };
   }
 
+  // テーブルの特定（署名・有効フラグ・再発行バージョンを検証）
+  let table: DiningTable | null = null;
+  if (parsed.data.table_token) {
+    table = await resolveTableToken(parsed.data.table_token);
+    if (!table) {
+      return {
+        status: 400,
+        body: {
+          ok: false,
+          error: "QRコードが無効です。お手数ですが席のQRコードを読み直してください。",
+          code: "invalid_table",
+        },
+      };
+    }
+  } else if (REQUIRE_TABLE_TOKEN) {
+    return {
+      status: 400,
+      body: { ok: false, error: "席のQRコードから注文してください。", code: "table_required" },
+    };
+  }
+
+  // メニューと照合（未登録・販売停止・売り切れの商品は受け付けない）
+  const resolved = await resolveOrderLines(parsed.data.items);
+  if (!resolved.ok) {
+    // 売り切れは商品名付きで 409（お客様サイトでカートから外せるように）
+    const soldOut = resolved.problems.filter((p) => p.reason === "sold_out");
+    if (soldOut.length > 0) {
+      return {
+        status: 409,
+        body: {
+          ok: false,
+          error: `売り切れの商品があります：${soldOut.map((p) => p.name).join("、")}`,
+          code: "sold_out",
+          items: soldOut.map(({ id, name }) => ({ id, name })),
+        },
+      };
+    }
+    return {
+      status: 400,
+      body: {
+        ok: false,
+        error: "注文できない商品が含まれています",
+        code: "invalid_items",
+        items: resolved.problems,
+      },
+    };
+  }
+
+  // 金額はサーバ側で計算して注文に保存（小計・税率別の消費税・合計）
+  const totals = computeTotals(resolved.lines);
+
+  // 注文番号（営業日ごとの連番）と、照会用の推測できないトークン
+  const number = await nextOrderNumber();
+  const publicToken = newPublicToken();
+
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .insert({
+      order_no: number.order_no,
+      business_date: number.business_date,
+      ticket_no: number.ticket_no,
+      public_token: publicToken,
+      items: resolved.lines,
+      ...totals,
+      table_id: table?.id ?? null,
+      table_label: table?.label ?? null,
+      note: parsed.data.note ?? null,
+      status: "pending",
+      source: "web",
+    })
+    .select()
+    .single();
+  if (error) return { status: 500, body: { ok: false, error: error.message } };
+
+  await recordOrderEvents(CUSTOMER_ACTOR, [
+    {
+      order_id: data.id,
+      order_no: data.order_no,
+      type: "created",
+      new_value: { status: data.status, items: data.items, total: data.total, table: data.table_label },
+    },
+  ]);
+  // キッチン伝票（とレシート）は応答のあとで積んで送る。印刷の失敗で注文は失敗させない
+  after(async () => {
+    try {
+      if ((await enqueueOrderPrints(data as PrintOrder)) > 0) await processPrintJobs();
+    } catch (e: unknown) {
+      console.error("[print_jobs] auto print failed:", e instanceof Error ? e.message : e);
+    }
+  });
+
+  const statusUrl = new URL(publicOrderPath(data.order_no, publicToken), origin).toString();
+  return { status: 200, body: { ok: true, order: data, status_url: statusUrl } };
+}
+
+export async function POST(req: NextRequest) {
+  // 応答は必ず CORS ヘッダ付きで返す
+  const headers = corsHeaders(req.headers.get("origin"), CORS);
+
   try {
     const body = await req.json().catch(() => ({}));
-    const parsed = CreateSchema.safeParse(body);
-    if (!parsed.success) {
-      return NextResponse.json(
-        { ok: false, error: "invalid payload", detail: parsed.error.flatten() },
-        { status: 400, headers },
-      );
-    }
 
-    // 注文番号（YYYYMMDD-XXXX）・衝突したら少しリトライ
-    const prefix = yyyymmdd();
-    let orderNo = `${prefix}-${random4()}`;
-    let tries = 0;
-    while (tries < 5) {
-      const { data, error } = await supabaseAdmin
-        .from("orders")
-        .insert({
-          order_no: orderNo,
-          items: parsed.data.items,
-          note: parsed.data.note ?? null,
-          status: "pending",
-          source: "web",
-        })
-        .select()
-        .single();
-
-      if (!error) {
-        return NextResponse.json({ ok: true, order: data }, { status: 200, headers });
+    // Idempotency-Key：同じキー＋同じ内容の再送には最初の応答を返す（通信不安定時の二重注文防止）
+    const idemKey = req.headers.get("idempotency-key")?.trim() || null;
+    if (idemKey) {
+      if (idemKey.length > MAX_KEY_LENGTH) {
+        return NextResponse.json(
+          { ok: false, error: "Idempotency-Key is too long" },
+          { status: 400, headers },
+        );
       }
-
-      // 重複なら再試行（Postgres の一意制約名は環境により異なるので includes で判定）
-      if (String(error.message).toLowerCase().includes("duplicate")) {
-        tries++;
-        orderNo = `${prefix}-${random4()}`;
-        continue;
+      const claim = await claimIdempotencyKey(idemKey, hashRequestBody(body));
+      if (claim.kind === "replay") {
+        return NextResponse.json(claim.body, {
+          status: claim.status,
+          headers: { ...headers, "Idempotent-Replayed": "true" },
+        });
+      }
+      if (claim.kind === "mismatch") {
+        return NextResponse.json(
+          { ok: false, error: "Idempotency-Key は別の内容の注文で使用済みです" },
+          { status: 409, headers },
+        );
       }
+      if (claim.kind === "in_progress") {
+        return NextResponse.json(
+          { ok: false, error: "同じ注文を処理中です。しばらくしてから再度お試しください。" },
+          { status: 409, headers },
+        );
+      }
+    }
 
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500, headers });
+    let result: CreateResult;
+    try {
+      result = await createOrder(body, req.nextUrl.origin);
+    } catch (e) {
+      if (idemKey) await releaseIdempotencyKey(idemKey);
+      throw e;
     }
 
-    return NextResponse.json(
-      { ok: false, error: "failed to create order (collision)" },
-      { status: 500, headers },
-    );
+    if (idemKey) {
+      // 作成できた応答だけ保存。失敗はキーを解放して再送で作り直せるようにする
+      if (result.status === 200) {
+        const order = result.body.order as { id?: string } | undefined;
+        await completeIdempotencyKey(idemKey, {
+          orderId: order?.id ?? null,
+          status: result.status,
+          body: result.body,
+        });
+      } else {
+        await releaseIdempotencyKey(idemKey);
+      }
+    }
+
+    return NextResponse.json(result.body, { status: result.status, headers });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     return NextResponse.json({ ok: false, error: msg }, { status: 500, headers });
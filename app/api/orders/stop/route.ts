@@ -1,27 +1,11 @@
 // app/api/orders/stop/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { corsHeaders } from "@/lib/cors";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const THIS_ORIGIN = process.env.NEXT_PUBLIC_SITE_ORIGIN || "http://localhost:3000";
-const ALLOWED_ORIGINS = new Set([
-  "http://localhost:3000",
-  THIS_ORIGIN,                      // Render本番
-  "https://qr-order-sigma.vercel.app", // お客さまサイト
-]);
-
-function corsHeaders(origin: string | null) {
-  const allow = origin && ALLOWED_ORIGINS.has(origin) ? origin : "";
-  return {
-    "Access-Control-Allow-Origin": allow,
-    "Access-Control-Allow-Credentials": "true",
-    "Access-Control-Allow-Methods": "GET, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
-  };
-}
-
 export async function OPTIONS(req: NextRequest) {
   return new NextResponse(null, {
     status: 204,
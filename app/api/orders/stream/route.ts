@@ -0,0 +1,81 @@
+// app/api/orders/stream/route.ts
+import { NextRequest } from "next/server";
+import { requireViewer, unauthorized } from "@/lib/auth";
+import { countPending, latestEventId, readStreamEvents } from "@/lib/orderStream";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** DB を見に行く間隔 */
+const POLL_MS = 1_500;
+/** 接続を一度切る時間（EventSource が Last-Event-ID 付きで再接続する。セッションもそこで再確認） */
+const MAX_CONNECTION_MS = 5 * 60_000;
+/** 変化がなくても送るコメント（プロキシのタイムアウト避け） */
+const HEARTBEAT_MS = 20_000;
+
+/**
+ * GET /api/orders/stream（管理者のみ・Server-Sent Events）
+ * - `event: order`   … 注文の insert/update/delete（id は order_events.id）
+ * - `event: pending` … 未処理件数
+ * - `event: reset`   … 遅れすぎて差分を送れないので一覧を取り直してほしい
+ * 再接続時は Last-Event-ID（または ?last_event_id=）の続きから送る。
+ */
+export async function GET(req: NextRequest) {
+  if (!(await requireViewer())) return unauthorized();
+
+  const resumeFrom = Number(
+    req.headers.get("last-event-id") ?? req.nextUrl.searchParams.get("last_event_id") ?? NaN,
+  );
+  let cursor = Number.isSafeInteger(resumeFrom) && resumeFrom >= 0 ? resumeFrom : await latestEventId();
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const started = Date.now();
+      let lastSentAt = Date.now();
+
+      // 接続直後：起点の id（以後の再接続はここから）
+      send(`retry: 3000\nid: ${cursor}\nevent: hello\ndata: {}\n\n`);
+
+      while (!req.signal.aborted && Date.now() - started < MAX_CONNECTION_MS) {
+        try {
+          const { events, lastId, overflow } = await readStreamEvents(cursor);
+          if (overflow) {
+            send(`id: ${lastId}\nevent: reset\ndata: {}\n\n`);
+          }
+          for (const ev of events) {
+            send(`id: ${ev.id}\nevent: order\ndata: ${JSON.stringify(ev)}\n\n`);
+          }
+          if (overflow || events.length > 0) {
+            send(`event: pending\ndata: ${JSON.stringify({ pending_count: await countPending() })}\n\n`);
+            lastSentAt = Date.now();
+          }
+          cursor = lastId;
+        } catch {
+          // 一時的な DB エラーは次の周回で取り直す
+        }
+
+        if (Date.now() - lastSentAt > HEARTBEAT_MS) {
+          send(`: keep-alive\n\n`);
+          lastSentAt = Date.now();
+        }
+        await new Promise((r) => setTimeout(r, POLL_MS));
+      }
+      try {
+        controller.close();
+      } catch {
+        // 切断済み
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
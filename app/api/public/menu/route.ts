@@ -0,0 +1,37 @@
+import { NextResponse, NextRequest } from "next/server";
+import { corsHeaders } from "@/lib/cors";
+import { listMenuItems } from "@/lib/menu";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS(req: NextRequest) {
+  const headers = corsHeaders(req.headers.get("origin"));
+  return new NextResponse(null, { status: 204, headers });
+}
+
+/** お客様サイト向けメニュー（販売中のみ。注文時はこの id を送る） */
+export async function GET(req: NextRequest) {
+  const headers = corsHeaders(req.headers.get("origin"));
+  try {
+    const items = await listMenuItems({ activeOnly: true });
+    return NextResponse.json(
+      {
+        ok: true,
+        items: items.map(({ id, name, price, tax_rate, category, options, sold_out }) => ({
+          id,
+          name,
+          price,
+          tax_rate,
+          category,
+          options,
+          sold_out,
+        })),
+      },
+      { status: 200, headers },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500, headers });
+  }
+}
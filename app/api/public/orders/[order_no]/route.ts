@@ -0,0 +1,34 @@
+// app/api/public/orders/[order_no]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { corsHeaders } from "@/lib/cors";
+import { PUBLIC_TOKEN_PARAM, getPublicOrder } from "@/lib/publicOrder";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req.headers.get("origin")) });
+}
+
+/** GET /api/public/orders/[order_no]?t=<公開トークン>（お客様向けの注文状況） */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { order_no: string } }
+) {
+  const headers = corsHeaders(req.headers.get("origin"));
+  const token = req.nextUrl.searchParams.get(PUBLIC_TOKEN_PARAM) ?? "";
+
+  try {
+    const order = token ? await getPublicOrder(params.order_no, token) : null;
+    if (!order) {
+      return NextResponse.json({ ok: false, error: "not found" }, { status: 404, headers });
+    }
+    return NextResponse.json(
+      { ok: true, order },
+      { status: 200, headers: { ...headers, "Cache-Control": "no-store" } },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500, headers });
+  }
+}
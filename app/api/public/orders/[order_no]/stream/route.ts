@@ -0,0 +1,77 @@
+// app/api/public/orders/[order_no]/stream/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PUBLIC_TOKEN_PARAM, getPublicOrder } from "@/lib/publicOrder";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** サーバ側で DB を見に行く間隔 */
+const POLL_MS = 3_000;
+/** 接続を一度切る時間（EventSource が自動で再接続する） */
+const MAX_CONNECTION_MS = 5 * 60_000;
+/** 変化がなくても送るコメント（プロキシのタイムアウト避け） */
+const HEARTBEAT_MS = 20_000;
+
+/**
+ * GET /api/public/orders/[order_no]/stream?t=<公開トークン>
+ * 注文状況の Server-Sent Events。変化したときだけ `event: order` を送る。
+ * 提供済・キャンセルになったら送って閉じる。
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { order_no: string } }
+) {
+  const token = req.nextUrl.searchParams.get(PUBLIC_TOKEN_PARAM) ?? "";
+  const first = token ? await getPublicOrder(params.order_no, token) : null;
+  if (!first) {
+    return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const started = Date.now();
+      let last = "";
+      let lastSentAt = 0;
+      let order = first;
+
+      send(`retry: ${POLL_MS}\n\n`);
+      while (!req.signal.aborted && Date.now() - started < MAX_CONNECTION_MS) {
+        const json = JSON.stringify(order);
+        if (json !== last) {
+          send(`event: order\ndata: ${json}\n\n`);
+          last = json;
+          lastSentAt = Date.now();
+        } else if (Date.now() - lastSentAt > HEARTBEAT_MS) {
+          send(`: keep-alive\n\n`);
+          lastSentAt = Date.now();
+        }
+        if (order.status === "served" || order.status === "cancelled") break;
+
+        await new Promise((r) => setTimeout(r, POLL_MS));
+        try {
+          const next = await getPublicOrder(params.order_no, token);
+          if (!next) break; // 削除された
+          order = next;
+        } catch {
+          // 一時的な DB エラーは次の周回で取り直す
+        }
+      }
+      try {
+        controller.close();
+      } catch {
+        // 切断済み
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
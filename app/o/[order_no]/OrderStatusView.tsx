@@ -0,0 +1,174 @@
+// app/o/[order_no]/OrderStatusView.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { STATUS_LABELS, isActiveStatus } from "@/lib/orderStatus";
+import type { PublicOrder } from "@/lib/publicOrder";
+
+/** お客様向けの進み具合（キャンセルは別表示） */
+const STEPS = [
+  { status: "pending", label: "ご注文受付" },
+  { status: "preparing", label: "調理中" },
+  { status: "ready", label: "お呼び出し" },
+  { status: "served", label: "お渡し済み" },
+] as const;
+
+/** ステータス → STEPS の何番目か（受付済は受付と同じ段） */
+const STEP_INDEX: Record<string, number> = {
+  pending: 0,
+  accepted: 0,
+  preparing: 1,
+  ready: 2,
+  served: 3,
+};
+
+export default function OrderStatusView({ initial, token }: { initial: PublicOrder; token: string }) {
+  const [order, setOrder] = useState(initial);
+  const [connected, setConnected] = useState(false);
+  const [soundOn, setSoundOn] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const prevStatus = useRef(initial.status);
+  const soundOnRef = useRef(soundOn);
+  soundOnRef.current = soundOn;
+
+  /** 出来上がりのお知らせ（音は「音でお知らせ」を押したときだけ鳴らせる） */
+  const notifyReady = () => {
+    if (typeof navigator !== "undefined" && "vibrate" in navigator) {
+      navigator.vibrate?.([300, 150, 300, 150, 600]);
+    }
+    const a = audioRef.current;
+    if (soundOnRef.current && a) {
+      try {
+        a.currentTime = 0;
+        a.play()?.catch(() => {});
+      } catch {}
+    }
+  };
+
+  // 状況の購読（SSE）。切れたらブラウザが自動で再接続する。
+  // 提供済・キャンセルはもう変わらないので、つながない（届いたら閉じる。閉じないと再接続し続ける）
+  const done = !isActiveStatus(initial.status);
+  useEffect(() => {
+    if (done) return;
+    const qs = new URLSearchParams({ t: token });
+    const es = new EventSource(`/api/public/orders/${encodeURIComponent(initial.order_no)}/stream?${qs}`);
+    es.addEventListener("open", () => setConnected(true));
+    es.addEventListener("error", () => setConnected(false));
+    es.addEventListener("order", (ev) => {
+      try {
+        const next = JSON.parse((ev as MessageEvent).data) as PublicOrder;
+        if (next.status === "ready" && prevStatus.current !== "ready") notifyReady();
+        prevStatus.current = next.status;
+        setOrder(next);
+        if (!isActiveStatus(next.status)) es.close();
+      } catch {}
+    });
+    return () => es.close();
+  }, [initial.order_no, token, done]);
+
+  /** 音の許可（ブラウザはユーザー操作なしに音を鳴らせないため、ここで一度鳴らす） */
+  function enableSound() {
+    const a = audioRef.current;
+    if (!a) return;
+    a.muted = true;
+    a.play()
+      ?.then(() => {
+        a.pause();
+        a.muted = false;
+        setSoundOn(true);
+      })
+      .catch(() => {});
+  }
+
+  const cancelled = order.status === "cancelled";
+  const step = STEP_INDEX[order.status] ?? 0;
+  const isReady = order.status === "ready";
+
+  return (
+    <div className={`min-h-screen ${isReady ? "bg-green-50" : "bg-gray-50"}`}>
+      <main className="mx-auto max-w-md px-4 py-8 space-y-5">
+        <header className="text-center">
+          <p className="text-sm text-gray-500">お呼び出し番号</p>
+          <p className="text-5xl font-bold tracking-wider tabular-nums text-gray-900">
+            {order.ticket_no ?? order.order_no}
+          </p>
+          {order.ticket_no != null && <p className="mt-1 text-xs text-gray-500">注文番号 {order.order_no}</p>}
+          {order.table_label && <p className="mt-1 text-sm text-gray-600">{order.table_label}</p>}
+        </header>
+
+        {/* ===== 状況 ===== */}
+        <section className="rounded-2xl border bg-white p-5 shadow-sm text-center">
+          {cancelled ? (
+            <p className="text-xl font-semibold text-red-700">このご注文はキャンセルされました</p>
+          ) : isReady ? (
+            <>
+              <p className="text-2xl font-bold text-green-700">できあがりました！</p>
+              <p className="mt-1 text-sm text-gray-700">カウンターまでお越しください。</p>
+            </>
+          ) : (
+            <>
+              <p className="text-xl font-semibold text-gray-900">{STATUS_LABELS[order.status]}</p>
+              {order.queue_position != null && (
+                <p className="mt-1 text-sm text-gray-700">
+                  {order.queue_position <= 1 ? "次にお作りします" : `あなたの前に ${order.queue_position - 1} 件`}
+                </p>
+              )}
+            </>
+          )}
+
+          {!cancelled && (
+            <ol className="mt-5 grid grid-cols-4 gap-1 text-[11px]">
+              {STEPS.map((s, i) => (
+                <li key={s.status} className="flex flex-col items-center gap-1">
+                  <span
+                    className={`h-2 w-full rounded-full ${i <= step ? (isReady ? "bg-green-500" : "bg-gray-900") : "bg-gray-200"}`}
+                  />
+                  <span className={i === step ? "font-semibold text-gray-900" : "text-gray-500"}>{s.label}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {/* ===== 明細 ===== */}
+        <section className="rounded-2xl border bg-white p-5 shadow-sm">
+          <h2 className="text-sm font-semibold text-gray-900">ご注文内容</h2>
+          <ul className="mt-2 divide-y text-sm">
+            {order.items.map((it, i) => (
+              <li key={i} className="flex items-start justify-between gap-2 py-1.5">
+                <span className={it.status === "cancelled" ? "text-gray-400 line-through" : "text-gray-900"}>
+                  {it.name}
+                  {it.options && it.options.length > 0 && (
+                    <span className="ml-1 text-xs text-gray-500">（{it.options.map((o) => o.name).join("・")}）</span>
+                  )}
+                </span>
+                {it.status === "cancelled" && <span className="text-xs text-red-600">取消</span>}
+                <span className="tabular-nums text-gray-700">×{it.qty}</span>
+              </li>
+            ))}
+          </ul>
+          {order.total != null && (
+            <p className="mt-2 border-t pt-2 text-right text-sm font-semibold tabular-nums text-gray-900">
+              合計 ¥{order.total.toLocaleString()}
+            </p>
+          )}
+        </section>
+
+        {!cancelled && order.status !== "served" && (
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{connected ? "● 自動で更新しています" : "○ 再接続中…"}</span>
+            <button
+              onClick={enableSound}
+              disabled={soundOn}
+              className={`rounded-lg border px-3 py-1.5 text-sm ${soundOn ? "bg-green-600 text-white" : "bg-white text-gray-900"}`}
+            >
+              🔔 {soundOn ? "音でお知らせします" : "音でお知らせ"}
+            </button>
+          </div>
+        )}
+      </main>
+
+      <audio ref={audioRef} src="/KF4.mp3" preload="auto" />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// app/o/[order_no]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { PUBLIC_TOKEN_PARAM, getPublicOrder } from "@/lib/publicOrder";
+import OrderStatusView from "./OrderStatusView";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "ご注文状況",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * お客様向けの注文状況ページ（/o/<注文番号>?t=<公開トークン>）。
+ * トークンが一致しない場合は注文が存在しないのと同じ 404 にする。
+ */
+export default async function PublicOrderPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ order_no: string }>;
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const { order_no } = await params;
+  const token = (await searchParams)[PUBLIC_TOKEN_PARAM] ?? "";
+
+  const order = token ? await getPublicOrder(decodeURIComponent(order_no), token) : null;
+  if (!order) notFound();
+
+  return <OrderStatusView initial={order} token={token} />;
+}
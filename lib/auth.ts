@@ -0,0 +1,68 @@
+// lib/auth.ts
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { getSession, type SessionStaff } from "@/lib/session";
+import { getDevice } from "@/lib/devices";
+import { DEVICE_COOKIE, SESSION_COOKIE } from "@/lib/sessionCookie";
+import { can, type Permission } from "@/lib/roles";
+import type { Actor } from "@/lib/orderEvents";
+
+/** リクエストしている共有端末（個人ログインなら null） */
+export type DeviceInfo = { id: string; name: string; lock_at: string | null };
+
+/** 操作する人（個人ログイン、または PIN でロック解除中の共有端末） */
+export type AdminAuth = { staff: SessionStaff; device: DeviceInfo | null };
+
+/** 閲覧する人（共有端末はロック中でも閲覧はできるので staff が null のことがある） */
+export type Viewer = { staff: SessionStaff | null; device: DeviceInfo | null };
+
+async function currentViewer(activity: boolean): Promise<Viewer | null> {
+  const jar = await cookies();
+  const token = jar.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const session = await getSession(token);
+    if (session) return { staff: session.staff, device: null };
+  }
+  const deviceToken = jar.get(DEVICE_COOKIE)?.value;
+  if (deviceToken) {
+    const device = await getDevice(deviceToken, { activity });
+    if (device) return { staff: device.staff, device: { id: device.id, name: device.name, lock_at: device.lock_at } };
+  }
+  return null;
+}
+
+/**
+ * 管理者セッションの共通チェック。
+ * 保護されたルート/レイアウトは必ずこれを通す。未ログイン・共有端末がロック中なら null。
+ * 共有端末ではこれを通るたびに無操作タイマーが延びるので、閲覧だけのルートは requireViewer() を使う。
+ */
+export async function requireAdmin(): Promise<AdminAuth | null> {
+  const viewer = await currentViewer(true);
+  return viewer?.staff ? { staff: viewer.staff, device: viewer.device } : null;
+}
+
+/** 閲覧用のチェック（一覧・SSE 等）。ロック中の共有端末も通す。未ログインなら null */
+export async function requireViewer(): Promise<Viewer | null> {
+  return currentViewer(false);
+}
+
+/** 401 応答（API 用） */
+export function unauthorized(headers?: HeadersInit) {
+  return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers });
+}
+
+/** 403 応答（ログインしているが役割が足りない） */
+export function forbidden(headers?: HeadersInit) {
+  return NextResponse.json({ ok: false, error: "この操作の権限がありません" }, { status: 403, headers });
+}
+
+/** セッションの役割で操作できるか（lib/roles.ts の PERMISSIONS） */
+export function hasPermission(session: AdminAuth, permission: Permission) {
+  return can(session.staff.role, permission);
+}
+
+/** 監査ログ用の操作者（ログインしているスタッフ。共有端末なら端末名も残す） */
+export function sessionActor(session: AdminAuth): Actor {
+  const { staff, device } = session;
+  return { type: "admin", id: staff.id, name: device ? `${staff.name}（${device.name}）` : staff.name };
+}
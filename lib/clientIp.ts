@@ -0,0 +1,23 @@
+// lib/clientIp.ts
+// 接続元 IP（ログインの試行制限・試行ログ用）。
+// X-Forwarded-For の左側はクライアントが自由に書けるので、前段のプロキシが末尾に足した値を使う。
+
+/**
+ * 信頼するプロキシの段数（既定 1：Render 等のホスティングの前段 1 台）。
+ * 0 はプロキシなしで直接受けている（転送ヘッダはクライアントが書いたものなので使わない）。
+ */
+const TRUSTED_PROXY_HOPS = (() => {
+  const n = Math.floor(Number(process.env.TRUSTED_PROXY_HOPS || 1));
+  return Number.isFinite(n) && n >= 0 ? n : 1;
+})();
+
+/** プロキシの後ろで受けたリクエストの接続元 IP（分からなければ null） */
+export function clientIp(headers: Headers): string | null {
+  if (TRUSTED_PROXY_HOPS === 0) return null;
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(hops.length - TRUSTED_PROXY_HOPS, 0)];
+  return headers.get("x-real-ip")?.trim() || null;
+}
@@ -0,0 +1,44 @@
+// lib/cors.ts
+// お客様サイト（別オリジン）から呼ばれる API 用の CORS 設定。
+// middleware（Edge）からも読むので Node 専用モジュールは import しないこと。
+
+const THIS_ORIGIN =
+  process.env.NEXT_PUBLIC_SITE_ORIGIN || "http://localhost:3000";
+
+// 固定許可 + Vercel のお客様アプリ（プレビュー含む）を許可
+const FIXED_ALLOW = new Set<string>([
+  "http://localhost:3000",
+  THIS_ORIGIN, // Render の本番 URL（NEXT_PUBLIC_SITE_ORIGIN）
+  "https://qr-order-sigma.vercel.app", // 本番のお客様サイト
+]);
+
+export function isAllowedOrigin(origin: string | null): string {
+  if (!origin) return "";
+  if (FIXED_ALLOW.has(origin)) return origin;
+  // プレビュー用（例: https://qr-order-xxxxx-rions-projects-...vercel.app）
+  try {
+    const u = new URL(origin);
+    if (
+      u.protocol === "https:" &&
+      u.hostname.endsWith(".vercel.app") &&
+      u.hostname.startsWith("qr-order-")
+    ) {
+      return origin;
+    }
+  } catch {}
+  return "";
+}
+
+export function corsHeaders(
+  origin: string | null,
+  opts: { methods?: string; headers?: string } = {},
+): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": isAllowedOrigin(origin),
+    "Access-Control-Allow-Credentials": "true",
+    "Access-Control-Allow-Methods": opts.methods ?? "GET, OPTIONS",
+    "Access-Control-Allow-Headers": opts.headers ?? "Content-Type",
+    "Access-Control-Max-Age": "600",
+    Vary: "Origin",
+  };
+}
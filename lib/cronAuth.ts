@@ -0,0 +1,16 @@
+// lib/cronAuth.ts
+// 定期実行（cron）からの呼び出しの確認。管理者のセッションなしで呼べるよう、
+// Authorization: Bearer <CRON_SECRET> を付けて呼ぶ（lib/routeAccess.ts では public にしておく）。
+import { createHash, timingSafeEqual } from "crypto";
+
+const CRON_SECRET = process.env.CRON_SECRET?.trim() || null;
+
+/** CRON_SECRET を付けた定期実行からのリクエストか（未設定なら常に false） */
+export function isCronRequest(headers: Headers) {
+  if (!CRON_SECRET) return false;
+  const token = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return false;
+  // 長さの違いも漏らさないようハッシュ同士で比べる
+  const digest = (v: string) => createHash("sha256").update(v).digest();
+  return timingSafeEqual(digest(token), digest(CRON_SECRET));
+}
@@ -0,0 +1,165 @@
+// lib/devices.ts
+// 共有端末（キッチンのタブレット等）。端末は登録したままにし、操作する人は PIN で切り替える。
+// 無操作が続くと担当者が外れ（ロック）、閲覧はできるが操作には PIN が要る。
+import { nanoid } from "nanoid";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { hashPassword, verifyPassword } from "@/lib/password";
+import { hashToken, type SessionStaff } from "@/lib/session";
+import { DEVICE_MAX_AGE_SEC } from "@/lib/sessionCookie";
+
+const TABLE = "devices";
+
+/** 無操作で自動ロックするまで（既定 3分。DEVICE_LOCK_MINUTES で変更可） */
+const LOCK_AFTER_SEC = Math.max(Number(process.env.DEVICE_LOCK_MINUTES ?? 3), 1) * 60;
+
+/** last_seen_at の更新間隔（閲覧のたびに書き込まないよう間引く） */
+const TOUCH_INTERVAL_SEC = 60;
+
+export type Device = {
+  id: string;
+  name: string;
+  active_staff_id: string | null;
+  last_activity_at: string | null;
+  created_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;
+};
+
+/** リクエスト中の端末。staff はロック中なら null、lock_at はこのままだとロックされる時刻 */
+export type DeviceContext = {
+  id: string;
+  name: string;
+  staff: SessionStaff | null;
+  lock_at: string | null;
+};
+
+/** この端末を登録する（登録した人のブラウザにトークンをクッキーで渡す） */
+export async function registerDevice(name: string, createdBy: string) {
+  const token = nanoid(43);
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .insert({ name, token_hash: hashToken(token), created_by: createdBy })
+    .select("id, name")
+    .single();
+  if (error) throw new Error(error.message);
+  return { token, device: data as { id: string; name: string } };
+}
+
+/**
+ * トークンから端末を引く。取り消し・期限切れなら null。
+ * activity が true なら（＝操作のとき）無操作タイマーを延ばす。閲覧（一覧の取得・SSE）では延ばさない。
+ */
+export async function getDevice(token: string, opts: { activity?: boolean } = {}): Promise<DeviceContext | null> {
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("id, name, created_at, last_seen_at, revoked_at, last_activity_at, staff:active_staff_id (id, name, role, active)")
+    .eq("token_hash", hashToken(token))
+    .maybeSingle();
+  if (error || !data || data.revoked_at) return null;
+
+  const now = Date.now();
+  if (now - Date.parse(data.created_at) > DEVICE_MAX_AGE_SEC * 1000) return null;
+
+  const staff = data.staff as unknown as (SessionStaff & { active: boolean }) | null;
+  const lastActivity = data.last_activity_at ? Date.parse(data.last_activity_at) : 0;
+  const unlocked = Boolean(staff?.active) && now - lastActivity < LOCK_AFTER_SEC * 1000;
+
+  const patch: Record<string, string> = {};
+  if ((now - Date.parse(data.last_seen_at)) / 1000 > TOUCH_INTERVAL_SEC) patch.last_seen_at = new Date(now).toISOString();
+  if (unlocked && opts.activity) patch.last_activity_at = new Date(now).toISOString();
+  if (Object.keys(patch).length > 0) await supabaseAdmin.from(TABLE).update(patch).eq("id", data.id);
+
+  const activityAt = patch.last_activity_at ? now : lastActivity;
+  return {
+    id: data.id,
+    name: data.name,
+    staff: unlocked && staff ? { id: staff.id, name: staff.name, role: staff.role } : null,
+    lock_at: unlocked ? new Date(activityAt + LOCK_AFTER_SEC * 1000).toISOString() : null,
+  };
+}
+
+/** 存在しないスタッフ・PIN 未設定でも同じだけ時間をかけるための照合相手 */
+let dummyPinHash: Promise<string> | null = null;
+
+export type UnlockResult =
+  | { ok: true; staff: SessionStaff; login_id: string }
+  /** 失敗でも狙われたスタッフが実在すれば staff_id・login_id を返す（試行ログ用） */
+  | { ok: false; staff_id: string | null; login_id: string | null };
+
+/** PIN を確かめて、この端末の担当者を切り替える */
+export async function unlockDevice(deviceId: string, staffId: string, pin: string): Promise<UnlockResult> {
+  const { data: staff, error } = await supabaseAdmin
+    .from("staff")
+    .select("id, login_id, name, role, active, pin_hash")
+    .eq("id", staffId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  dummyPinHash ??= hashPassword("0000");
+  const valid = await verifyPassword(pin, staff?.pin_hash ?? (await dummyPinHash));
+  if (!staff || !staff.pin_hash || !staff.active || !valid) {
+    return { ok: false, staff_id: staff?.id ?? null, login_id: staff?.login_id ?? null };
+  }
+
+  const { error: upErr } = await supabaseAdmin
+    .from(TABLE)
+    .update({ active_staff_id: staff.id, last_activity_at: new Date().toISOString() })
+    .eq("id", deviceId);
+  if (upErr) throw new Error(upErr.message);
+  return { ok: true, staff: { id: staff.id, name: staff.name, role: staff.role }, login_id: staff.login_id };
+}
+
+/** 担当者を外す（ロック画面に戻る） */
+export async function lockDevice(deviceId: string) {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ active_staff_id: null, last_activity_at: null })
+    .eq("id", deviceId);
+  if (error) throw new Error(error.message);
+}
+
+/** そのスタッフが担当中の端末をすべてロックする（PIN を変えた・消したとき、古い PIN で入った人を外す） */
+export async function lockStaffDevices(staffId: string) {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ active_staff_id: null, last_activity_at: null })
+    .eq("active_staff_id", staffId);
+  if (error) throw new Error(error.message);
+}
+
+/** 端末で切り替えられるスタッフ（有効で PIN を設定済みの人） */
+export async function listPinStaff() {
+  const { data, error } = await supabaseAdmin
+    .from("staff")
+    .select("id, name")
+    .eq("active", true)
+    .not("pin_hash", "is", null)
+    .order("name", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as { id: string; name: string }[];
+}
+
+export async function listDevices() {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("id, name, active_staff_id, last_activity_at, created_at, last_seen_at, revoked_at")
+    .is("revoked_at", null)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as Device[];
+}
+
+/** 登録の取り消し（紛失・入れ替え時）。その端末はすぐ使えなくなる */
+export async function revokeDevice(id: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString(), active_staff_id: null })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select("id")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return Boolean(data);
+}
@@ -0,0 +1,85 @@
+// lib/escpos.ts
+// PrintDoc → ESC/POS のバイト列（日本語モデルのサーマルプリンタ向け。漢字は Shift_JIS で送る）
+import type { PrintDoc, PrintLine } from "@/lib/printDoc";
+
+/** 1行の桁数（半角）。80mm 紙は 48、58mm 紙は 32 */
+const COLUMNS = Math.max(Number(process.env.PRINTER_COLUMNS ?? 48), 16);
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const ALIGN = { left: 0, center: 1, right: 2 } as const;
+
+/** 文字 → Shift_JIS のコード（初回だけ作る。Node の TextDecoder から逆引き表を組み立てる） */
+let sjisTable: Map<string, number> | null = null;
+
+function sjisMap() {
+  if (sjisTable) return sjisTable;
+  const dec = new TextDecoder("shift_jis");
+  const map = new Map<string, number>();
+  // 半角カナ（1バイト）
+  for (let b = 0xa1; b <= 0xdf; b++) map.set(dec.decode(new Uint8Array([b])), b);
+  // 全角（2バイト。第1バイト 0x81-0x9F / 0xE0-0xFC）
+  for (let hi = 0x81; hi <= 0xfc; hi++) {
+    if (hi >= 0xa0 && hi < 0xe0) continue;
+    for (let lo = 0x40; lo <= 0xfc; lo++) {
+      if (lo === 0x7f) continue;
+      const ch = dec.decode(new Uint8Array([hi, lo]));
+      if (ch.length === 1 && ch !== "\uFFFD" && !map.has(ch)) map.set(ch, (hi << 8) | lo);
+    }
+  }
+  sjisTable = map;
+  return map;
+}
+
+/** Shift_JIS にする（表にない文字は "?"）。日本語モデルでは 0x5C が「¥」 */
+export function encodeShiftJis(text: string): number[] {
+  const map = sjisMap();
+  const out: number[] = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (ch === "¥") out.push(0x5c);
+    else if (code < 0x80) out.push(code);
+    else {
+      const sj = map.get(ch);
+      if (sj === undefined) out.push(0x3f);
+      else if (sj > 0xff) out.push(sj >> 8, sj & 0xff);
+      else out.push(sj);
+    }
+  }
+  return out;
+}
+
+/** 左右に振り分けた1行（入り切らなければ右側を次の行に右寄せ） */
+function rowBytes(left: number[], right: number[], columns: number) {
+  const gap = columns - left.length - right.length;
+  if (gap >= 1) return [...left, ...Array(gap).fill(0x20), ...right, LF];
+  return [...left, LF, ...Array(Math.max(columns - right.length, 0)).fill(0x20), ...right, LF];
+}
+
+function lineBytes(line: PrintLine): number[] {
+  if (line.type === "rule") return [ESC, 0x61, ALIGN.left, ...Array(COLUMNS).fill(0x2d), LF];
+
+  const size = line.size ?? 1;
+  const style = [ESC, 0x45, line.bold ? 1 : 0, GS, 0x21, size === 2 ? 0x11 : 0x00];
+  if (line.type === "row") {
+    const columns = Math.floor(COLUMNS / size);
+    return [...style, ESC, 0x61, ALIGN.left, ...rowBytes(encodeShiftJis(line.left), encodeShiftJis(line.right), columns)];
+  }
+  return [...style, ESC, 0x61, ALIGN[line.align ?? "left"], ...encodeShiftJis(line.text), LF];
+}
+
+/** 1枚分のバイト列（初期化 → 本文 → 紙送り・カット） */
+export function toEscPos(doc: PrintDoc): Uint8Array {
+  const bytes: number[] = [
+    ESC, 0x40, // 初期化
+    FS, 0x43, 0x01, // 漢字コード系：Shift_JIS
+    FS, 0x26, // 漢字モード
+  ];
+  for (const line of doc.lines) bytes.push(...lineBytes(line));
+  bytes.push(ESC, 0x45, 0, GS, 0x21, 0x00); // 装飾を戻す
+  bytes.push(GS, 0x56, 0x42, 0x03); // 少し送ってパーシャルカット
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,96 @@
+// lib/idempotency.ts
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+const TABLE = "order_idempotency_keys";
+
+/** キーの保持時間（既定 24時間。IDEMPOTENCY_TTL_HOURS で変更可） */
+const TTL_MS = Math.max(Number(process.env.IDEMPOTENCY_TTL_HOURS ?? 24), 1) * 60 * 60 * 1000;
+
+export const MAX_KEY_LENGTH = 255;
+
+/** 処理中のまま残ったキーを取り直すまで（最初のリクエストが complete/release 前に落ちた場合） */
+const STALE_CLAIM_SEC = 60;
+
+export type IdempotencyClaim =
+  | { kind: "new" } // 初回：処理を進めてよい
+  | { kind: "replay"; status: number; body: unknown } // 同じ内容の再送：保存済みの応答を返す
+  | { kind: "mismatch" } // 同じキーで内容が違う
+  | { kind: "in_progress" }; // 同じキーの初回リクエストがまだ処理中
+
+/** キー順を揃えた JSON 文字列（同じ内容なら同じハッシュになるように） */
+function canonicalJson(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonicalJson).join(",")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v as Record<string, unknown>)
+      .filter(([, val]) => val !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, val]) => `${JSON.stringify(k)}:${canonicalJson(val)}`).join(",")}}`;
+  }
+  return JSON.stringify(v ?? null);
+}
+
+export function hashRequestBody(body: unknown) {
+  return createHash("sha256").update(canonicalJson(body)).digest("hex");
+}
+
+/**
+ * キーを確保する。一意制約で同時送信にも 1 件だけ "new" を返す。
+ * 期限切れの行（このキーに限らず全部）を先に掃除してから確保する。処理中のまま STALE_CLAIM_SEC 経ったキーは取り直す。
+ */
+export async function claimIdempotencyKey(key: string, requestHash: string): Promise<IdempotencyClaim> {
+  const now = new Date();
+  // expires_at の索引で引けるので、注文のたびに消しても軽い（表が増え続けないように）
+  await supabaseAdmin.from(TABLE).delete().lt("expires_at", now.toISOString());
+
+  const { error } = await supabaseAdmin.from(TABLE).insert({
+    key,
+    request_hash: requestHash,
+    expires_at: new Date(now.getTime() + TTL_MS).toISOString(),
+  });
+  if (!error) return { kind: "new" };
+  if (error.code !== "23505") throw new Error(error.message);
+
+  // 既に使われているキー
+  const { data, error: selErr } = await supabaseAdmin
+    .from(TABLE)
+    .select("request_hash, status_code, response, claimed_at")
+    .eq("key", key)
+    .maybeSingle();
+  if (selErr) throw new Error(selErr.message);
+  if (!data) return claimIdempotencyKey(key, requestHash); // 直前に掃除された
+
+  if (data.request_hash !== requestHash) return { kind: "mismatch" };
+  if (data.response == null) {
+    const staleBefore = new Date(now.getTime() - STALE_CLAIM_SEC * 1000);
+    if (Date.parse(data.claimed_at) >= staleBefore.getTime()) return { kind: "in_progress" };
+    // 条件付き更新なので、同時に来た再送のうち 1 件だけが取り直せる
+    const { data: reclaimed, error: updErr } = await supabaseAdmin
+      .from(TABLE)
+      .update({ claimed_at: now.toISOString() })
+      .eq("key", key)
+      .is("response", null)
+      .lt("claimed_at", staleBefore.toISOString())
+      .select("key")
+      .maybeSingle();
+    if (updErr) throw new Error(updErr.message);
+    return reclaimed ? { kind: "new" } : { kind: "in_progress" };
+  }
+  return { kind: "replay", status: data.status_code ?? 200, body: data.response };
+}
+
+/** 処理成功時：応答を保存（以後の再送はこれを返す） */
+export async function completeIdempotencyKey(
+  key: string,
+  result: { orderId: string | null; status: number; body: unknown },
+) {
+  await supabaseAdmin
+    .from(TABLE)
+    .update({ order_id: result.orderId, status_code: result.status, response: result.body })
+    .eq("key", key);
+}
+
+/** 処理失敗時：キーを解放（同じキーでやり直せるように） */
+export async function releaseIdempotencyKey(key: string) {
+  await supabaseAdmin.from(TABLE).delete().eq("key", key).is("response", null);
+}
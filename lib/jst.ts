@@ -0,0 +1,50 @@
+// lib/jst.ts
+// 日本時間での日付計算（サーバの TZ に依存しないように Intl で変換）
+
+const DATE_FMT = new Intl.DateTimeFormat("sv-SE", {
+  timeZone: "Asia/Tokyo",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/** 日本時間の日付 "YYYY-MM-DD" */
+export function jstDate(d = new Date()) {
+  return DATE_FMT.format(d);
+}
+
+/** "YYYY-MM-DD" に日数を足す */
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** "YYYY-MM-DD" の 00:00 JST を ISO 文字列で */
+export function jstStartOfDay(date: string) {
+  return new Date(`${date}T00:00:00+09:00`).toISOString();
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 実在する日付の "YYYY-MM-DD" か（"2026-02-31" などは false） */
+export function isDateString(s: string) {
+  if (!DATE_RE.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+const DATETIME_FMT = new Intl.DateTimeFormat("sv-SE", {
+  timeZone: "Asia/Tokyo",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+/** ISO 文字列 → 日本時間の "YYYY-MM-DD HH:mm:ss"（空なら空文字） */
+export function jstDateTime(iso: string | null | undefined) {
+  return iso ? DATETIME_FMT.format(new Date(iso)) : "";
+}
@@ -0,0 +1,177 @@
+// lib/kitchen.ts
+// キッチンディスプレイ（/admin/kitchen）：持ち場ごとの調理待ちと完了処理
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { recordOrderEvents, type Actor } from "@/lib/orderEvents";
+import { transitionOrder } from "@/lib/orderTransitions";
+import { lineStatusOf, type OrderStatus } from "@/lib/orderStatus";
+import type { OrderLine } from "@/lib/menu";
+import { UUIDish } from "@/lib/uuid";
+
+export const StationSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[A-Za-z0-9_-]+$/, "id は半角英数字・_・- のみ"),
+  name: z.string().min(1).max(50),
+  sort_order: z.number().int().optional(),
+  // 伝票を出すネットワークプリンタ（raw TCP）。null で印刷しない
+  printer_host: z.string().trim().max(255).nullable().optional(),
+  printer_port: z.number().int().min(1).max(65535).optional(),
+});
+export const StationPatchSchema = StationSchema.omit({ id: true }).partial();
+
+export type Station = {
+  id: string;
+  name: string;
+  sort_order: number;
+  printer_host: string | null;
+  printer_port: number;
+  created_at: string;
+  updated_at: string;
+};
+
+/** キッチンに表示する段階（提供待ち以降は厨房の手を離れている） */
+export const KITCHEN_STATUSES = ["pending", "accepted", "preparing"] as const satisfies readonly OrderStatus[];
+
+export type KitchenTicket = {
+  id: string;
+  order_no: string;
+  ticket_no: number | null;
+  table_label: string | null;
+  note: string | null;
+  status: OrderStatus;
+  created_at: string;
+  /** この持ち場で作る明細（まだ完了していないもの） */
+  lines: Pick<OrderLine, "id" | "name" | "qty" | "options" | "station">[];
+};
+
+/**
+ * 持ち場を割り当てていない明細の持ち場。
+ * id には持ち場の id に使えない文字（:）を入れて、実在の持ち場とぶつからないようにする。
+ */
+export const UNASSIGNED_STATION = { id: ":none", name: "割り当てなし" } as const;
+
+export type KitchenItemCount = { id: string; name: string; qty: number };
+
+export async function listStations() {
+  const { data, error } = await supabaseAdmin
+    .from("stations")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as Station[];
+}
+
+/** 厨房で作る明細（提供済・取消は除く） */
+function toCook(lines: OrderLine[]) {
+  return lines.filter((l) => lineStatusOf(l) === "pending");
+}
+
+/** 明細の持ち場（割り当てなしは UNASSIGNED_STATION.id） */
+function stationOf(line: OrderLine) {
+  return line.station || UNASSIGNED_STATION.id;
+}
+
+/** 注文の明細がある持ち場（割り当てなしの明細は UNASSIGNED_STATION として数える） */
+function stationsOf(lines: OrderLine[]) {
+  return Array.from(new Set(toCook(lines).map(stationOf)));
+}
+
+/**
+ * 調理待ちの一覧（古い順）と商品ごとの合計。
+ * station を指定するとその持ち場の未完了の明細だけ、null なら全持ち場の未完了の明細。
+ * 割り当てなしの明細は UNASSIGNED_STATION の持ち場として扱う。
+ */
+export async function kitchenQueue(station: string | null) {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("id, order_no, ticket_no, table_label, note, status, created_at, items, stations_done")
+    .in("status", KITCHEN_STATUSES)
+    .is("cleared_at", null)
+    .order("created_at", { ascending: true })
+    .limit(300);
+  if (error) throw new Error(error.message);
+
+  const tickets: KitchenTicket[] = [];
+  const counts = new Map<string, KitchenItemCount>();
+  for (const o of data ?? []) {
+    const done = new Set<string>(o.stations_done ?? []);
+    const lines = toCook((o.items ?? []) as OrderLine[]).filter(
+      (l) => !done.has(stationOf(l)) && (station === null || stationOf(l) === station),
+    );
+    if (lines.length === 0) continue;
+
+    tickets.push({
+      id: o.id,
+      order_no: o.order_no,
+      ticket_no: o.ticket_no,
+      table_label: o.table_label,
+      note: o.note,
+      status: o.status,
+      created_at: o.created_at,
+      lines: lines.map((l) => ({ id: l.id, name: l.name, qty: l.qty, options: l.options, station: stationOf(l) })),
+    });
+    for (const l of lines) {
+      const c = counts.get(l.id) ?? { id: l.id, name: l.name, qty: 0 };
+      c.qty += l.qty;
+      counts.set(l.id, c);
+    }
+  }
+
+  return {
+    tickets,
+    items: Array.from(counts.values()).sort((a, b) => b.qty - a.qty),
+    unassigned: UNASSIGNED_STATION,
+  };
+}
+
+export type StationDoneResult =
+  | { ok: true; order: Record<string, unknown>; ready: boolean }
+  | { ok: false; status: number; error: string; code?: string };
+
+/**
+ * 持ち場の完了を記録する。注文の全持ち場（割り当てなしを含む）が完了したら「提供待ち」にする。
+ * （遷移ルールで許可されていなければ完了の記録だけ残し、ready: false で返す）
+ */
+export async function markStationDone(orderId: string, station: string, actor: Actor): Promise<StationDoneResult> {
+  if (!UUIDish.test(orderId)) return { ok: false, status: 404, error: "not found" };
+  const { data: cur, error } = await supabaseAdmin
+    .from("orders")
+    .select("id, order_no, status, items, stations_done")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!cur) return { ok: false, status: 404, error: "not found" };
+
+  const needed = stationsOf((cur.items ?? []) as OrderLine[]);
+  if (!needed.includes(station)) {
+    return { ok: false, status: 400, error: "この注文にはこの持ち場の商品がありません", code: "no_station_items" };
+  }
+  if (!(KITCHEN_STATUSES as readonly string[]).includes(cur.status)) {
+    return { ok: false, status: 409, error: "調理中の注文ではありません", code: "not_in_kitchen" };
+  }
+
+  const { data: rows, error: upErr } = await supabaseAdmin.rpc("mark_station_done", {
+    p_order_id: orderId,
+    p_station: station,
+  });
+  if (upErr) return { ok: false, status: 500, error: upErr.message };
+  const updated = (rows as Record<string, unknown>[] | null)?.[0];
+  if (!updated) return { ok: false, status: 404, error: "not found" };
+
+  if (!(cur.stations_done ?? []).includes(station)) {
+    await recordOrderEvents(actor, [
+      { order_id: orderId, order_no: cur.order_no, type: "station_done", new_value: { station } },
+    ]);
+  }
+
+  const done = new Set<string>((updated.stations_done as string[]) ?? []);
+  if (!needed.every((s) => done.has(s))) return { ok: true, order: updated, ready: false };
+
+  const t = await transitionOrder({ column: "id", value: orderId }, "ready", actor);
+  if (!t.ok) return { ok: true, order: updated, ready: false };
+  return { ok: true, order: t.order, ready: true };
+}
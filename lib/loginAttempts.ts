@@ -0,0 +1,39 @@
+// lib/loginAttempts.ts
+// ログイン試行のログ（成功・失敗・制限中）。スタッフ管理画面でオーナーが確認する
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+const TABLE = "login_attempts";
+
+export type LoginAttemptResult = "success" | "failed" | "throttled";
+/** パスワードでのログイン / 共有端末での PIN による切り替え */
+export type LoginAttemptMethod = "password" | "pin";
+
+export type LoginAttempt = {
+  id: number;
+  login_id: string | null;
+  staff_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  result: LoginAttemptResult;
+  method: LoginAttemptMethod;
+  created_at: string;
+};
+
+/** 記録の失敗でログイン自体は失敗させない（ログのみ出す） */
+export async function recordLoginAttempt(
+  attempt: Omit<LoginAttempt, "id" | "created_at" | "method"> & { method?: LoginAttemptMethod },
+) {
+  const { error } = await supabaseAdmin.from(TABLE).insert(attempt);
+  if (error) console.error("[login_attempts] insert failed:", error.message);
+}
+
+/** 新しい順 */
+export async function listLoginAttempts(limit = 100) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("*")
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data ?? []) as LoginAttempt[];
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  checkLogin,
+  createMemoryThrottleStore,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginSubject,
+  type ThrottleStore,
+} from "@/lib/loginThrottle";
+
+// DB 版のストアは使わない（import 時の接続設定の確認だけ避ける）
+vi.mock("@/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+
+const START = Date.parse("2026-10-19T09:00:00Z");
+
+describe("loginThrottle", () => {
+  let t: number;
+  let store: ThrottleStore;
+  const clock = () => t;
+  const advance = (sec: number) => {
+    t += sec * 1000;
+  };
+  // アカウント側の制限だけを見る（free 3 / base 2秒 / lockAfter 10 / lock 15分）
+  const account: LoginSubject = { ip: null, loginId: "Hanako" };
+
+  const fail = async (subject = account, n = 1) => {
+    for (let i = 0; i < n; i++) await recordLoginFailure(subject, store);
+  };
+  const check = (subject = account) => checkLogin(subject, store, t);
+
+  beforeEach(() => {
+    t = START;
+    store = createMemoryThrottleStore(clock);
+  });
+
+  it("free 回までは待たせず、それを超えると待ち時間が倍々に延びる", async () => {
+    await fail(account, 3);
+    expect(await check()).toEqual({ allowed: true });
+
+    const waits: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      await fail();
+      const gate = await check();
+      waits.push(gate.allowed ? 0 : gate.retryAfterSec);
+    }
+    expect(waits).toEqual([2, 4, 8, 16]);
+
+    // 待ち時間が過ぎれば試せる
+    advance(16);
+    expect(await check()).toEqual({ allowed: true });
+  });
+
+  it("lockAfter 回でロックし、ロック時間が過ぎるまで解けない", async () => {
+    await fail(account, 9);
+    expect(await check()).toMatchObject({ allowed: false, locked: false });
+
+    await fail();
+    expect(await check()).toEqual({ allowed: false, retryAfterSec: 15 * 60, locked: true });
+
+    advance(15 * 60 - 1);
+    expect(await check()).toMatchObject({ allowed: false, locked: true, retryAfterSec: 1 });
+    advance(1);
+    expect(await check()).toEqual({ allowed: true });
+  });
+
+  it("ログイン ID の大文字・小文字は同じアカウントとして数える", async () => {
+    await fail({ ip: null, loginId: "HANAKO" }, 10);
+    expect(await check({ ip: null, loginId: "hanako" })).toMatchObject({ allowed: false, locked: true });
+  });
+
+  it("成功するとアカウント側だけ数え直し、IP 側は残す", async () => {
+    const subject = { ip: "203.0.113.7", loginId: "hanako" };
+    await fail(subject, 10);
+    expect(await check(subject)).toMatchObject({ allowed: false, locked: true });
+
+    await recordLoginSuccess(subject, store);
+    expect(await store.get("account:hanako")).toBeNull();
+    expect(await store.get("ip:203.0.113.7")).toMatchObject({ failures: 10 });
+    expect(await check(subject)).toEqual({ allowed: true });
+  });
+
+  it("最後の失敗から窓（1時間）が過ぎたら数え直す", async () => {
+    await fail(account, 5);
+    expect((await check()).allowed).toBe(false);
+
+    advance(60 * 60);
+    expect(await check()).toEqual({ allowed: true });
+
+    // 次の失敗は 1 回目として数える
+    await fail();
+    expect(await store.get("account:hanako")).toMatchObject({ failures: 1 });
+    expect(await check()).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,134 @@
+// lib/loginThrottle.ts
+// ログインの試行制限。IP ごと・アカウントごとに失敗を数え、続くほど待ち時間を倍にし、
+// 一定回数を超えたらしばらくロックする。
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type ThrottleState = { failures: number; last_failure_at: string };
+
+/** 失敗回数の置き場所（既定は DB。テストではメモリ版に差し替える） */
+export type ThrottleStore = {
+  get(key: string): Promise<ThrottleState | null>;
+  /** 失敗を1回数える（最後の失敗から windowSec 以上空いていたら 1 から数え直し） */
+  fail(key: string, windowSec: number): Promise<ThrottleState>;
+  reset(key: string): Promise<void>;
+};
+
+type Policy = {
+  /** この回数までは待たせない */
+  free: number;
+  /** free を超えた最初の待ち時間。以降 1 回ごとに倍 */
+  baseSec: number;
+  maxSec: number;
+  /** この回数に達したらロック */
+  lockAfter: number;
+  lockSec: number;
+};
+
+/** 店内の端末は同じ IP から来ることが多いので、IP 側はゆるめにする */
+const POLICIES = {
+  ip: { free: 10, baseSec: 1, maxSec: 60, lockAfter: 50, lockSec: 30 * 60 },
+  account: { free: 3, baseSec: 2, maxSec: 5 * 60, lockAfter: 10, lockSec: 15 * 60 },
+} satisfies Record<string, Policy>;
+
+/** 最後の失敗からこれだけ経ったら数え直し（ロック時間より長くすること） */
+const WINDOW_SEC = 60 * 60;
+
+export const dbThrottleStore: ThrottleStore = {
+  async get(key) {
+    const { data, error } = await supabaseAdmin
+      .from("login_throttle")
+      .select("failures, last_failure_at")
+      .eq("key", key)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ThrottleState | null) ?? null;
+  },
+  async fail(key, windowSec) {
+    const { data, error } = await supabaseAdmin
+      .rpc("login_throttle_fail", { p_key: key, p_window_sec: windowSec })
+      .single();
+    if (error) throw new Error(error.message);
+    return data as ThrottleState;
+  },
+  async reset(key) {
+    const { error } = await supabaseAdmin.from("login_throttle").delete().eq("key", key);
+    if (error) throw new Error(error.message);
+  },
+};
+
+/** メモリ版（テスト・単体動作確認用。プロセスをまたいで共有されないので本番では使わない） */
+export function createMemoryThrottleStore(now: () => number = Date.now): ThrottleStore {
+  const map = new Map<string, ThrottleState>();
+  return {
+    async get(key) {
+      return map.get(key) ?? null;
+    },
+    async fail(key, windowSec) {
+      const cur = map.get(key);
+      const fresh = !cur || now() - Date.parse(cur.last_failure_at) >= windowSec * 1000;
+      const next = { failures: fresh ? 1 : cur.failures + 1, last_failure_at: new Date(now()).toISOString() };
+      map.set(key, next);
+      return next;
+    },
+    async reset(key) {
+      map.delete(key);
+    },
+  };
+}
+
+/** 失敗回数に応じた待ち時間（秒） */
+function waitSec(p: Policy, failures: number) {
+  if (failures >= p.lockAfter) return p.lockSec;
+  if (failures <= p.free) return 0;
+  return Math.min(p.baseSec * 2 ** (failures - p.free - 1), p.maxSec);
+}
+
+export type LoginSubject = { ip: string | null; loginId: string };
+
+function keysOf(subject: LoginSubject): [Policy, string][] {
+  const keys: [Policy, string][] = [];
+  if (subject.ip) keys.push([POLICIES.ip, `ip:${subject.ip}`]);
+  if (subject.loginId) keys.push([POLICIES.account, `account:${subject.loginId.toLowerCase()}`]);
+  return keys;
+}
+
+export type LoginGate = { allowed: true } | { allowed: false; retryAfterSec: number; locked: boolean };
+
+/** 今ログインを試してよいか（IP・アカウントのうち長いほうの待ち時間を返す） */
+export async function checkLogin(
+  subject: LoginSubject,
+  store: ThrottleStore = dbThrottleStore,
+  now: number = Date.now(),
+): Promise<LoginGate> {
+  let retryAfterSec = 0;
+  let locked = false;
+  for (const [policy, key] of keysOf(subject)) {
+    const state = await store.get(key);
+    if (!state) continue;
+    const since = (now - Date.parse(state.last_failure_at)) / 1000;
+    if (since >= WINDOW_SEC) continue;
+    const rest = Math.ceil(waitSec(policy, state.failures) - since);
+    if (rest > retryAfterSec) {
+      retryAfterSec = rest;
+      locked = state.failures >= policy.lockAfter;
+    }
+  }
+  return retryAfterSec > 0 ? { allowed: false, retryAfterSec, locked } : { allowed: true };
+}
+
+export async function recordLoginFailure(subject: LoginSubject, store: ThrottleStore = dbThrottleStore) {
+  for (const [, key] of keysOf(subject)) await store.fail(key, WINDOW_SEC);
+}
+
+/**
+ * 成功したらアカウント側だけ数え直す。
+ * IP 側は残す（1つ正しいアカウントを持っていれば他のアカウントを試し放題、にならないように）。
+ */
+export async function recordLoginSuccess(subject: LoginSubject, store: ThrottleStore = dbThrottleStore) {
+  await unlockAccount(subject.loginId, store);
+}
+
+/** アカウントのロック解除（オーナーがパスワードを再設定したとき） */
+export async function unlockAccount(loginId: string, store: ThrottleStore = dbThrottleStore) {
+  if (loginId) await store.reset(`account:${loginId.toLowerCase()}`);
+}
@@ -0,0 +1,156 @@
+// lib/menu.ts
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { TaxRate } from "@/lib/pricing";
+import type { LineStatus } from "@/lib/orderStatus";
+
+const TABLE = "menu_items";
+
+/** 選択肢（トッピング・サイズ等）。price は追加料金 */
+export const MenuOptionSchema = z.object({
+  name: z.string().min(1).max(50),
+  price: z.number().int().nonnegative(),
+});
+
+/** 管理画面からの作成/更新用 */
+export const MenuItemSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[A-Za-z0-9_-]+$/, "id は半角英数字・_・- のみ"),
+  name: z.string().min(1).max(100),
+  price: z.number().int().nonnegative(),
+  tax_rate: z.union([z.literal(8), z.literal(10)]).optional(),
+  category: z.string().max(50).nullable().optional(),
+  options: z.array(MenuOptionSchema).max(30).optional(),
+  active: z.boolean().optional(),
+  sold_out: z.boolean().optional(),
+  sort_order: z.number().int().optional(),
+  // キッチンの持ち場（stations.id）。null で割り当てなし
+  station_id: z.string().max(64).nullable().optional(),
+});
+export const MenuItemPatchSchema = MenuItemSchema.omit({ id: true }).partial();
+
+export type MenuOption = z.infer<typeof MenuOptionSchema>;
+
+export type MenuItem = {
+  id: string;
+  name: string;
+  price: number;
+  tax_rate: TaxRate;
+  category: string | null;
+  options: MenuOption[];
+  active: boolean;
+  sold_out: boolean;
+  sort_order: number;
+  station_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** 注文に保存する明細（名前・価格はサーバ側のマスタから） */
+export type OrderLine = {
+  id: string;
+  name: string;
+  qty: number;
+  /** 単価（選択肢の追加料金込み） */
+  price: number;
+  /** 消費税率（注文時点のマスタ値） */
+  tax_rate: TaxRate;
+  options?: MenuOption[];
+  /** 調理する持ち場（注文時点のマスタ値） */
+  station?: string | null;
+  /** 明細ごとの状態（未設定は未提供）。取消は金額に含めない */
+  status?: LineStatus;
+  cancel_reason?: string | null;
+  status_at?: string | null;
+};
+
+/** お客様サイトから届く明細（id・数量・選択肢名のみを信用する） */
+export type OrderLineInput = { id: string; qty: number; options?: string[] };
+
+export type LineProblem = {
+  id: string;
+  reason: "unknown" | "inactive" | "sold_out" | "invalid_option";
+  name?: string;
+  option?: string;
+};
+
+/** 一覧（管理画面は全件、お客様向けは販売中のみ） */
+export async function listMenuItems(opts: { activeOnly?: boolean } = {}) {
+  let q = supabaseAdmin
+    .from(TABLE)
+    .select("*")
+    .order("category", { ascending: true, nullsFirst: false })
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+  if (opts.activeOnly) q = q.eq("active", true);
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return (data ?? []) as MenuItem[];
+}
+
+/**
+ * 注文明細をマスタと突き合わせる。
+ * 未登録・販売停止・売り切れ・存在しない選択肢があれば problems に入れて返す。
+ */
+export async function resolveOrderLines(
+  inputs: OrderLineInput[],
+): Promise<{ ok: true; lines: OrderLine[] } | { ok: false; problems: LineProblem[] }> {
+  const ids = Array.from(new Set(inputs.map((i) => i.id)));
+  const { data, error } = await supabaseAdmin.from(TABLE).select("*").in("id", ids);
+  if (error) throw new Error(error.message);
+
+  const byId = new Map((data as MenuItem[]).map((m) => [m.id, m]));
+  const problems: LineProblem[] = [];
+  const lines: OrderLine[] = [];
+
+  for (const input of inputs) {
+    const item = byId.get(input.id);
+    if (!item) {
+      problems.push({ id: input.id, reason: "unknown" });
+      continue;
+    }
+    if (!item.active) {
+      problems.push({ id: input.id, reason: "inactive" });
+      continue;
+    }
+    if (item.sold_out) {
+      problems.push({ id: input.id, reason: "sold_out", name: item.name });
+      continue;
+    }
+
+    const chosen: MenuOption[] = [];
+    for (const name of input.options ?? []) {
+      const opt = (item.options ?? []).find((o) => o.name === name);
+      if (!opt) problems.push({ id: input.id, reason: "invalid_option", option: name });
+      else chosen.push(opt);
+    }
+
+    lines.push({
+      id: item.id,
+      name: item.name,
+      qty: input.qty,
+      price: item.price + chosen.reduce((sum, o) => sum + o.price, 0),
+      tax_rate: item.tax_rate ?? 10,
+      ...(chosen.length > 0 ? { options: chosen } : {}),
+      ...(item.station_id ? { station: item.station_id } : {}),
+    });
+  }
+
+  if (problems.length > 0) return { ok: false, problems };
+  return { ok: true, lines };
+}
+
+/** 売り切れ中の商品（お客様サイトでグレーアウトする用） */
+export async function listSoldOutItems() {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("id, name")
+    .eq("active", true)
+    .eq("sold_out", true)
+    .order("id", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as { id: string; name: string }[];
+}
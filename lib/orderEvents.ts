@@ -0,0 +1,79 @@
+// lib/orderEvents.ts
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { emitOrderWebhooks } from "@/lib/webhooks";
+
+const TABLE = "order_events";
+
+export type OrderEventType =
+  | "created"
+  | "status_changed"
+  | "note_changed"
+  | "cleared"
+  | "deleted"
+  | "station_done"
+  | "item_changed";
+
+/** 操作した人（管理者セッション / お客様 / システム処理） */
+export type Actor = {
+  type: "admin" | "customer" | "system";
+  id?: string | null;
+  name?: string | null;
+};
+
+export const CUSTOMER_ACTOR: Actor = { type: "customer", name: "お客様" };
+export const SYSTEM_ACTOR: Actor = { type: "system", name: "システム" };
+
+export type OrderEventInput = {
+  order_id: string;
+  order_no?: string | null;
+  type: OrderEventType;
+  old_value?: unknown;
+  new_value?: unknown;
+};
+
+export type OrderEvent = {
+  id: number;
+  order_id: string;
+  order_no: string | null;
+  type: OrderEventType;
+  actor_type: Actor["type"];
+  actor_id: string | null;
+  actor_name: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+};
+
+/**
+ * 監査ログを記録する（送る設定のある出来事は Webhook の配信も積む）。
+ * 本体の更新は既に終わっているので、ログの書き込み失敗で処理全体は失敗させない（ログのみ出す）。
+ */
+export async function recordOrderEvents(actor: Actor, events: OrderEventInput[]) {
+  if (events.length === 0) return;
+  const rows = events.map((e) => ({
+    order_id: e.order_id,
+    order_no: e.order_no ?? null,
+    type: e.type,
+    actor_type: actor.type,
+    actor_id: actor.id ?? null,
+    actor_name: actor.name ?? null,
+    old_value: e.old_value ?? null,
+    new_value: e.new_value ?? null,
+  }));
+  const { error } = await supabaseAdmin.from(TABLE).insert(rows);
+  if (error) console.error("[order_events] insert failed:", error.message);
+
+  // 作成・ステータス変更・クリアは外部連携（Webhook）にも送る（積むのは応答のあと）
+  emitOrderWebhooks(actor, events);
+}
+
+/** 1件の注文の履歴（古い順） */
+export async function listOrderEvents(orderId: string) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("*")
+    .eq("order_id", orderId)
+    .order("id", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as OrderEvent[];
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { exportCsv } from "@/lib/orderExport";
+
+// orders を配列で返すだけの偽の DB（絞り込みは見ない）
+const db = vi.hoisted(() => ({ orders: [] as Record<string, unknown>[] }));
+
+vi.mock("@/lib/supabaseAdmin", () => ({
+  supabaseAdmin: {
+    from() {
+      const query = {
+        select: () => query,
+        gte: () => query,
+        lt: () => query,
+        order: () => query,
+        limit: () => query,
+        in: () => query,
+        eq: () => query,
+        or: () => query,
+        then: (resolve: (r: { data: unknown[]; error: null }) => void) => resolve({ data: db.orders, error: null }),
+      };
+      return query;
+    },
+  },
+}));
+
+const FILTER = { from: "2026-10-19", to: "2026-10-19", status: "" };
+
+function order(patch: Record<string, unknown>) {
+  return {
+    id: "00000000-0000-0000-0000-000000000001",
+    order_no: "20261019-0012",
+    ticket_no: 12,
+    status: "served",
+    created_at: "2026-10-19T03:00:00Z",
+    served_at: null,
+    cancelled_at: null,
+    table_label: "A1",
+    note: null,
+    items: [{ id: "karaage", name: "唐揚げ定食", price: 900, qty: 1, tax_rate: 10 }],
+    subtotal: 900,
+    tax: 90,
+    total: 990,
+    tax_breakdown: [{ rate: 10, subtotal: 900, tax: 90 }],
+    ...patch,
+  };
+}
+
+/** CSV を読み切って、ヘッダの次の行を返す */
+async function firstRow(sheet: "orders" | "items") {
+  const text = await new Response(exportCsv(sheet, FILTER)).text();
+  return text.split("\r\n")[1];
+}
+
+describe("exportCsv", () => {
+  beforeEach(() => {
+    db.orders = [];
+  });
+
+  it("数式として読まれる文字で始まるセルは ' を付けて文字にする", async () => {
+    for (const note of ["=1+1", "+81 90", "-2+3", "@SUM(A1)", "\tx", "\rx"]) {
+      db.orders = [order({ note })];
+      const row = await firstRow("orders");
+      const cell = row.slice(row.lastIndexOf(",") + 1);
+      expect(cell.startsWith(`'`) || cell.startsWith(`"'`)).toBe(true);
+    }
+
+    db.orders = [order({ note: '=HYPERLINK("http://example.com","x")' })];
+    expect(await firstRow("orders")).toMatch(/,"'=HYPERLINK\(""http:\/\/example\.com"",""x""\)"$/);
+
+    db.orders = [order({ items: [{ id: "x", name: "=cmd|' /C calc'!A0", price: 900, qty: 1, tax_rate: 10 }] })];
+    expect((await firstRow("items")).split(",")[5]).toBe("'=cmd|' /C calc'!A0");
+  });
+
+  it("数値や普通の文字列はそのまま", async () => {
+    db.orders = [order({ note: "辛さ控えめ", total: -100 })];
+    const row = (await firstRow("orders")).split(",");
+    expect(row[0]).toBe("20261019-0012");
+    expect(row[8]).toBe("-100");
+    expect(row[row.length - 1]).toBe("辛さ控えめ");
+  });
+});
@@ -0,0 +1,207 @@
+// lib/orderExport.ts
+// 注文の CSV / Excel 出力（会計用）。
+// 全件をメモリに載せないよう、注文を少しずつ読みながら 1 行ずつ書き出す。
+import { once } from "node:events";
+import { PassThrough, Readable } from "node:stream";
+import ExcelJS from "exceljs";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { jstDateTime, jstStartOfDay, addDays } from "@/lib/jst";
+import {
+  ACTIVE_STATUSES,
+  DONE_STATUSES,
+  LINE_STATUS_LABELS,
+  STATUS_LABELS,
+  lineStatusOf,
+  normalizeStatus,
+  type OrderStatus,
+} from "@/lib/orderStatus";
+import type { OrderLine } from "@/lib/menu";
+
+/** 1回に DB から読む件数 */
+const BATCH_SIZE = 500;
+
+export type ExportSheet = "orders" | "items";
+
+export type ExportFilter = {
+  /** 日本時間の "YYYY-MM-DD"（両端含む） */
+  from: string;
+  to: string;
+  /** 個別ステータス / active / done / 空（すべて） */
+  status: string;
+};
+
+type ExportOrder = {
+  id: string;
+  order_no: string;
+  ticket_no: number | null;
+  status: OrderStatus;
+  created_at: string;
+  served_at: string | null;
+  cancelled_at: string | null;
+  table_label: string | null;
+  note: string | null;
+  items: OrderLine[];
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  tax_breakdown: { rate: number; subtotal: number; tax: number }[] | null;
+};
+
+type Cell = string | number;
+type Column<T> = { header: string; width: number; value: (row: T) => Cell };
+
+const taxOf = (o: ExportOrder, rate: number) => o.tax_breakdown?.find((b) => b.rate === rate);
+
+const ORDER_COLUMNS: Column<ExportOrder>[] = [
+  { header: "注文番号", width: 16, value: (o) => o.order_no },
+  { header: "呼出番号", width: 8, value: (o) => o.ticket_no ?? "" },
+  { header: "注文日時", width: 20, value: (o) => jstDateTime(o.created_at) },
+  { header: "ステータス", width: 10, value: (o) => STATUS_LABELS[o.status] ?? o.status },
+  { header: "テーブル", width: 10, value: (o) => o.table_label ?? "" },
+  { header: "点数", width: 6, value: (o) => (o.items ?? []).reduce((sum, l) => sum + l.qty, 0) },
+  { header: "小計", width: 10, value: (o) => o.subtotal ?? "" },
+  { header: "消費税", width: 10, value: (o) => o.tax ?? "" },
+  { header: "合計", width: 10, value: (o) => o.total ?? "" },
+  { header: "8%対象", width: 10, value: (o) => taxOf(o, 8)?.subtotal ?? 0 },
+  { header: "8%消費税", width: 10, value: (o) => taxOf(o, 8)?.tax ?? 0 },
+  { header: "10%対象", width: 10, value: (o) => taxOf(o, 10)?.subtotal ?? 0 },
+  { header: "10%消費税", width: 10, value: (o) => taxOf(o, 10)?.tax ?? 0 },
+  { header: "提供日時", width: 20, value: (o) => jstDateTime(o.served_at) },
+  { header: "キャンセル日時", width: 20, value: (o) => jstDateTime(o.cancelled_at) },
+  { header: "メモ", width: 30, value: (o) => o.note ?? "" },
+];
+
+type LineRow = { order: ExportOrder; line: OrderLine };
+
+const LINE_COLUMNS: Column<LineRow>[] = [
+  { header: "注文番号", width: 16, value: (r) => r.order.order_no },
+  { header: "注文日時", width: 20, value: (r) => jstDateTime(r.order.created_at) },
+  { header: "ステータス", width: 10, value: (r) => STATUS_LABELS[r.order.status] ?? r.order.status },
+  { header: "テーブル", width: 10, value: (r) => r.order.table_label ?? "" },
+  { header: "商品ID", width: 14, value: (r) => r.line.id },
+  { header: "商品名", width: 24, value: (r) => r.line.name },
+  { header: "選択肢", width: 20, value: (r) => (r.line.options ?? []).map((o) => o.name).join("・") },
+  { header: "単価", width: 8, value: (r) => r.line.price },
+  { header: "数量", width: 6, value: (r) => r.line.qty },
+  { header: "金額", width: 10, value: (r) => r.line.price * r.line.qty },
+  { header: "税率", width: 6, value: (r) => `${r.line.tax_rate ?? 10}%` },
+  { header: "明細の状態", width: 10, value: (r) => LINE_STATUS_LABELS[lineStatusOf(r.line)] },
+  { header: "取消理由", width: 20, value: (r) => r.line.cancel_reason ?? "" },
+];
+
+const SHEETS: Record<ExportSheet, { name: string; columns: Column<never>[] }> = {
+  orders: { name: "注文", columns: ORDER_COLUMNS as Column<never>[] },
+  items: { name: "明細", columns: LINE_COLUMNS as Column<never>[] },
+};
+
+/**
+ * 期間・ステータスで絞り込んだ注文を古い順に少しずつ読む。
+ * (created_at, id) のキーセットで進めるので、途中で注文が増えても重複・抜けが出ない。
+ */
+async function* iterateOrders(filter: ExportFilter): AsyncGenerator<ExportOrder> {
+  const start = jstStartOfDay(filter.from);
+  const end = jstStartOfDay(addDays(filter.to, 1));
+  let cursor: { created_at: string; id: string } | null = null;
+
+  for (;;) {
+    let q = supabaseAdmin
+      .from("orders")
+      .select(
+        "id, order_no, ticket_no, status, created_at, served_at, cancelled_at, table_label, note, items, subtotal, tax, total, tax_breakdown",
+      )
+      .gte("created_at", start)
+      .lt("created_at", end)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (filter.status === "active") q = q.in("status", ACTIVE_STATUSES);
+    else if (filter.status === "done") q = q.in("status", DONE_STATUSES);
+    else if (filter.status) {
+      const status = normalizeStatus(filter.status);
+      if (status) q = q.eq("status", status);
+    }
+    if (cursor) {
+      const at = `"${cursor.created_at}"`;
+      q = q.or(`created_at.gt.${at},and(created_at.eq.${at},id.gt.${cursor.id})`);
+    }
+
+    const { data, error } = await q;
+    if (error) throw new Error(error.message);
+    const rows = (data ?? []) as ExportOrder[];
+    for (const row of rows) yield row;
+    if (rows.length < BATCH_SIZE) return;
+    const last = rows[rows.length - 1];
+    cursor = { created_at: last.created_at, id: last.id };
+  }
+}
+
+/** シートの行（明細シートは 1 注文を明細行に展開する） */
+async function* sheetRows(sheet: ExportSheet, filter: ExportFilter): AsyncGenerator<Cell[]> {
+  for await (const order of iterateOrders(filter)) {
+    if (sheet === "orders") {
+      yield ORDER_COLUMNS.map((c) => c.value(order));
+    } else {
+      for (const line of order.items ?? []) yield LINE_COLUMNS.map((c) => c.value({ order, line }));
+    }
+  }
+}
+
+/** Excel が数式として読む先頭文字（お客様のメモ等から数式を仕込まれないように） */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(v: Cell) {
+  // 数値はそのまま（負の金額に ' を付けない）。文字列だけ ' を前に付けて文字として読ませる
+  const s = typeof v === "string" && FORMULA_PREFIX.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** CSV（Excel で文字化けしないよう UTF-8 BOM 付き・CRLF） */
+export function exportCsv(sheet: ExportSheet, filter: ExportFilter): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const rows = sheetRows(sheet, filter);
+  const header = SHEETS[sheet].columns.map((c) => c.header);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode("\uFEFF" + header.map(csvCell).join(",") + "\r\n"));
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await rows.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value.map(csvCell).join(",") + "\r\n"));
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+    async cancel() {
+      await rows.return(undefined);
+    },
+  });
+}
+
+/** Excel（注文シートと明細シートを 1 ブックに。ストリーミング書き出し） */
+export function exportXlsx(filter: ExportFilter): ReadableStream<Uint8Array> {
+  const out = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useSharedStrings: false });
+
+  (async () => {
+    for (const sheet of ["orders", "items"] as const) {
+      const def = SHEETS[sheet];
+      const ws = workbook.addWorksheet(def.name, { views: [{ state: "frozen", ySplit: 1 }] });
+      ws.columns = def.columns.map((c) => ({ header: c.header, width: c.width }));
+      ws.getRow(1).font = { bold: true };
+      ws.getRow(1).commit();
+      for await (const row of sheetRows(sheet, filter)) {
+        ws.addRow(row).commit();
+        // 受け手が遅いときは待つ（書き出し途中のデータを溜め込まない）
+        if (out.writableNeedDrain) await once(out, "drain");
+      }
+      ws.commit();
+    }
+    await workbook.commit();
+  })().catch((e: unknown) => out.destroy(e instanceof Error ? e : new Error(String(e))));
+
+  return Readable.toWeb(out) as ReadableStream<Uint8Array>;
+}
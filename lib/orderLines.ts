@@ -0,0 +1,110 @@
+// lib/orderLines.ts
+// 明細単位の提供・取消（一部キャンセル）
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { computeTotals } from "@/lib/pricing";
+import { recordOrderEvents, type Actor } from "@/lib/orderEvents";
+import { transitionOrder } from "@/lib/orderTransitions";
+import { LINE_STATUSES, isActiveStatus, lineStatusOf, type OrderStatus } from "@/lib/orderStatus";
+import type { OrderLine } from "@/lib/menu";
+import { UUIDish } from "@/lib/uuid";
+
+export const LinePatchSchema = z
+  .object({
+    status: z.enum(LINE_STATUSES),
+    reason: z.string().max(200).optional(),
+  })
+  .refine((v) => v.status !== "cancelled" || Boolean(v.reason?.trim()), {
+    message: "取消には理由が必要です",
+    path: ["reason"],
+  });
+
+export type LineUpdateResult =
+  | { ok: true; order: Record<string, unknown> }
+  | { ok: false; status: number; error: string; code?: string };
+
+/** 金額の対象になる明細（取消を除く） */
+export function billableLines(lines: OrderLine[]) {
+  return lines.filter((l) => lineStatusOf(l) !== "cancelled");
+}
+
+/**
+ * index 番目の明細の状態を変える。取消なら合計を計算し直す。
+ * 全明細が取消になったら注文をキャンセル、残りが全部提供済なら注文を提供済にする。
+ * 他端末との同時更新は updated_at で検出して 409。
+ */
+export async function updateOrderLine(
+  orderId: string,
+  index: number,
+  patch: z.infer<typeof LinePatchSchema>,
+  actor: Actor,
+): Promise<LineUpdateResult> {
+  if (!UUIDish.test(orderId)) return { ok: false, status: 404, error: "not found" };
+  const { data: cur, error } = await supabaseAdmin
+    .from("orders")
+    .select("id, order_no, status, items, updated_at")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!cur) return { ok: false, status: 404, error: "not found" };
+  if (!isActiveStatus(cur.status as OrderStatus)) {
+    return { ok: false, status: 409, error: "処理済みの注文は変更できません", code: "order_done" };
+  }
+
+  const lines = (cur.items ?? []) as OrderLine[];
+  const line = lines[index];
+  if (!line) return { ok: false, status: 404, error: "明細が見つかりません" };
+
+  const from = lineStatusOf(line);
+  if (from === patch.status) return { ok: true, order: cur };
+  if (from === "cancelled") {
+    return { ok: false, status: 409, error: "取消済みの明細は戻せません", code: "line_cancelled" };
+  }
+
+  const nextLine: OrderLine = {
+    ...line,
+    status: patch.status,
+    status_at: new Date().toISOString(),
+    cancel_reason: patch.status === "cancelled" ? patch.reason!.trim() : null,
+  };
+  const nextLines = lines.map((l, i) => (i === index ? nextLine : l));
+  const totals = patch.status === "cancelled" ? computeTotals(billableLines(nextLines)) : {};
+
+  const { data: updated, error: upErr } = await supabaseAdmin
+    .from("orders")
+    .update({ items: nextLines, ...totals })
+    .eq("id", orderId)
+    .eq("updated_at", cur.updated_at)
+    .select()
+    .maybeSingle();
+  if (upErr) return { ok: false, status: 500, error: upErr.message };
+  if (!updated) {
+    return {
+      ok: false,
+      status: 409,
+      error: "他の端末で更新されました。画面を更新してください。",
+      code: "conflict",
+    };
+  }
+
+  await recordOrderEvents(actor, [
+    {
+      order_id: orderId,
+      order_no: cur.order_no,
+      type: "item_changed",
+      old_value: { index, name: line.name, status: from },
+      new_value: { index, name: line.name, status: patch.status, reason: nextLine.cancel_reason },
+    },
+  ]);
+
+  // 明細の状態から注文全体を進める（遷移ルールで許可されないときは明細の変更だけ残す）
+  const statuses = nextLines.map(lineStatusOf);
+  let to: OrderStatus | null = null;
+  if (statuses.every((s) => s === "cancelled")) to = "cancelled";
+  else if (statuses.every((s) => s !== "pending")) to = "served";
+  if (to) {
+    const t = await transitionOrder({ column: "id", value: orderId }, to, actor);
+    if (t.ok) return { ok: true, order: t.order };
+  }
+  return { ok: true, order: updated };
+}
@@ -0,0 +1,29 @@
+// lib/orderNumber.ts
+// 注文番号の採番（日本時間の営業日ごとの連番）
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { jstDate } from "@/lib/jst";
+
+export type OrderNumber = {
+  /** 日本時間の日付 "YYYY-MM-DD" */
+  business_date: string;
+  /** その日の呼び出し番号（1, 2, 3, ...） */
+  ticket_no: number;
+  /** 一意な注文番号 "YYYYMMDD-001" */
+  order_no: string;
+};
+
+/**
+ * 次の注文番号を払い出す（DB の next_order_ticket で直列化）。
+ * 番号は 3 桁以上で、旧形式（ランダム 4 桁固定）とは 999 番までは重ならない。
+ */
+export async function nextOrderNumber(now = new Date()): Promise<OrderNumber> {
+  const day = jstDate(now);
+  const { data, error } = await supabaseAdmin.rpc("next_order_ticket", { p_date: day });
+  if (error) throw new Error(error.message);
+  const ticket = Number(data);
+  return {
+    business_date: day,
+    ticket_no: ticket,
+    order_no: `${day.replaceAll("-", "")}-${String(ticket).padStart(3, "0")}`,
+  };
+}
@@ -0,0 +1,65 @@
+// lib/orderQuery.ts
+// 注文一覧の検索条件（GET /api/orders と管理画面で共用。DB 等は import しないこと）
+
+/** 並び順（キーはクエリの sort=） */
+export const ORDER_SORTS = {
+  created_desc: { column: "created_at", ascending: false, label: "新しい順" },
+  created_asc: { column: "created_at", ascending: true, label: "古い順" },
+  total_desc: { column: "total", ascending: false, label: "金額の高い順" },
+  total_asc: { column: "total", ascending: true, label: "金額の低い順" },
+} as const;
+export type OrderSort = keyof typeof ORDER_SORTS;
+export const DEFAULT_SORT: OrderSort = "created_desc";
+
+export function normalizeSort(v: string | null | undefined): OrderSort {
+  return v && v in ORDER_SORTS ? (v as OrderSort) : DEFAULT_SORT;
+}
+
+/** 検索語（空白区切り・小文字。すべてを含むものに一致） */
+export function searchTerms(q: string | null | undefined) {
+  return (q ?? "")
+    .toLowerCase()
+    .split(/[\s　]+/)
+    .filter(Boolean)
+    .slice(0, 5);
+}
+
+/**
+ * 期間の端を ISO 文字列に。"YYYY-MM-DD" または "YYYY-MM-DDTHH:mm"（どちらも日本時間）。
+ * 日付だけの終端はその日の終わりまで含める。解釈できなければ null。
+ */
+export function rangeBoundary(v: string | null | undefined, edge: "from" | "to") {
+  if (!v) return null;
+  let d: Date;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    d = new Date(`${v}T00:00:00+09:00`);
+    if (edge === "to") d = new Date(d.getTime() + 86_400_000);
+  } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(v)) {
+    d = new Date(`${v}:00+09:00`);
+    if (edge === "to") d = new Date(d.getTime() + 60_000); // その分の終わりまで
+  } else {
+    d = new Date(v);
+  }
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+type Searchable = {
+  order_no: string;
+  note?: string | null;
+  items: { id: string; name: string }[];
+  created_at: string;
+};
+
+/** DB の search_text（注文番号・メモ・商品名）と同じ基準での一致判定（画面側の差分反映用） */
+export function orderMatchesQuery(
+  o: Searchable,
+  query: { terms: string[]; from: string | null; to: string | null; item: string | null },
+) {
+  if (query.item && !o.items.some((it) => it.id === query.item)) return false;
+  const t = Date.parse(o.created_at);
+  if (query.from && t < Date.parse(query.from)) return false;
+  if (query.to && t >= Date.parse(query.to)) return false;
+  if (query.terms.length === 0) return true;
+  const text = [o.order_no, o.note ?? "", ...o.items.map((it) => it.name)].join(" ").toLowerCase();
+  return query.terms.every((term) => text.includes(term));
+}
@@ -0,0 +1,80 @@
+// lib/orderStatus.ts
+// 注文ステータスの定義と遷移ルール（管理画面からも import するので DB 等は import しないこと）
+
+/** 受付 → 調理 → 提供可 → 提供済 の流れ。cancelled はどこからでも（既定） */
+export const ORDER_STATUSES = [
+  "pending",
+  "accepted",
+  "preparing",
+  "ready",
+  "served",
+  "cancelled",
+] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/** 進行中（ボードに段ごとに並べる） */
+export const ACTIVE_STATUSES = ["pending", "accepted", "preparing", "ready"] as const satisfies readonly OrderStatus[];
+/** 処理済み（クリア対象） */
+export const DONE_STATUSES = ["served", "cancelled"] as const satisfies readonly OrderStatus[];
+
+export const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "未処理",
+  accepted: "受付済",
+  preparing: "調理中",
+  ready: "提供待ち",
+  served: "提供済",
+  cancelled: "キャンセル",
+};
+
+/** 遷移したときに記録する時刻の列 */
+export const STATUS_TIMESTAMP_COLUMN: Record<OrderStatus, string | null> = {
+  pending: null, // created_at を使う
+  accepted: "accepted_at",
+  preparing: "preparing_at",
+  ready: "ready_at",
+  served: "served_at",
+  cancelled: "cancelled_at",
+};
+
+export type TransitionMap = Record<OrderStatus, OrderStatus[]>;
+
+/**
+ * 既定の遷移：前へ進む（段の飛ばしは可）か、キャンセル。
+ * 戻す（例: served → pending）は app_settings の order_transitions で明示的に許可したときだけ。
+ */
+export const DEFAULT_TRANSITIONS: TransitionMap = {
+  pending: ["accepted", "preparing", "ready", "served", "cancelled"],
+  accepted: ["preparing", "ready", "served", "cancelled"],
+  preparing: ["ready", "served", "cancelled"],
+  ready: ["served", "cancelled"],
+  served: [],
+  cancelled: [],
+};
+
+/** 旧クライアント互換："completed" は "served" として扱う */
+export function normalizeStatus(s: string): OrderStatus | null {
+  if (s === "completed") return "served";
+  return (ORDER_STATUSES as readonly string[]).includes(s) ? (s as OrderStatus) : null;
+}
+
+export function isActiveStatus(s: OrderStatus) {
+  return (ACTIVE_STATUSES as readonly string[]).includes(s);
+}
+
+export function canTransition(map: TransitionMap, from: OrderStatus, to: OrderStatus) {
+  return (map[from] ?? []).includes(to);
+}
+
+/** 明細ごとの状態（未設定は pending 扱い）。cancelled は金額から外し、戻せない */
+export const LINE_STATUSES = ["pending", "served", "cancelled"] as const;
+export type LineStatus = (typeof LINE_STATUSES)[number];
+
+export const LINE_STATUS_LABELS: Record<LineStatus, string> = {
+  pending: "未提供",
+  served: "提供済",
+  cancelled: "取消",
+};
+
+export function lineStatusOf(line: { status?: LineStatus | null }): LineStatus {
+  return line.status ?? "pending";
+}
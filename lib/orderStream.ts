@@ -0,0 +1,112 @@
+// lib/orderStream.ts
+// 管理画面向けの注文変更ストリーム（/api/orders/stream）。
+// order_events の連番 id をそのまま SSE のイベント id に使い、Last-Event-ID から再開できるようにする。
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { OrderEvent, OrderEventType } from "@/lib/orderEvents";
+
+export type StreamOp = "insert" | "update" | "delete";
+
+/** 監査ログの種類 → 画面側の操作 */
+const OP_BY_TYPE: Record<OrderEventType, StreamOp> = {
+  created: "insert",
+  status_changed: "update",
+  note_changed: "update",
+  cleared: "update",
+  deleted: "delete",
+  station_done: "update",
+  item_changed: "update",
+};
+
+export type StreamEvent = {
+  /** order_events.id（SSE の id） */
+  id: number;
+  op: StreamOp;
+  type: OrderEventType;
+  order_id: string;
+  /** insert/update のときは最新の注文（その後に削除されていれば null） */
+  order: Record<string, unknown> | null;
+};
+
+/** 1回に読む最大件数。これを超えて遅れていたら画面に全件取り直しを指示する */
+export const STREAM_BATCH_SIZE = 500;
+
+/**
+ * 連番が飛んでいるとき、この時間までは後から埋まる（別トランザクションが未コミット）とみなして待つ。
+ * それを過ぎた欠番はロールバック等で使われなかった番号として読み飛ばす。
+ */
+const GAP_WAIT_MS = 3_000;
+
+/** いま一番新しいイベント id（接続直後の起点） */
+export async function latestEventId(): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("order_events")
+    .select("id")
+    .order("id", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.id ?? 0;
+}
+
+/**
+ * afterId より後のイベントを注文の最新状態付きで返す。
+ * overflow が true なら取りこぼしがあり得るので、画面は一覧を取り直す。
+ */
+export async function readStreamEvents(
+  afterId: number,
+): Promise<{ events: StreamEvent[]; lastId: number; overflow: boolean }> {
+  const { data, error } = await supabaseAdmin
+    .from("order_events")
+    .select("id, order_id, type, created_at")
+    .gt("id", afterId)
+    .order("id", { ascending: true })
+    .limit(STREAM_BATCH_SIZE);
+  if (error) throw new Error(error.message);
+  const rows = (data ?? []) as Pick<OrderEvent, "id" | "order_id" | "type" | "created_at">[];
+
+  if (rows.length >= STREAM_BATCH_SIZE) {
+    return { events: [], lastId: rows[rows.length - 1].id, overflow: true };
+  }
+
+  // 欠番の手前で止める（まだ新しい欠番だけ）
+  let expected = afterId + 1;
+  const ready: typeof rows = [];
+  for (const r of rows) {
+    if (r.id !== expected && Date.now() - Date.parse(r.created_at) < GAP_WAIT_MS) break;
+    ready.push(r);
+    expected = r.id + 1;
+  }
+  if (ready.length === 0) return { events: [], lastId: afterId, overflow: false };
+
+  // 対象の注文を一度に取る（同じ注文の連続した変更は最新の状態を送る）
+  const ids = Array.from(new Set(ready.filter((r) => r.type !== "deleted").map((r) => r.order_id)));
+  const byId = new Map<string, Record<string, unknown>>();
+  if (ids.length > 0) {
+    const { data: orders, error: oErr } = await supabaseAdmin.from("orders").select("*").in("id", ids);
+    if (oErr) throw new Error(oErr.message);
+    for (const o of orders ?? []) byId.set(o.id, o);
+  }
+
+  const events = ready.map((r) => {
+    const order = r.type === "deleted" ? null : byId.get(r.order_id) ?? null;
+    return {
+      id: r.id,
+      // 変更後に削除済みなら delete として送る
+      op: order || r.type === "deleted" ? OP_BY_TYPE[r.type] : "delete",
+      type: r.type,
+      order_id: r.order_id,
+      order,
+    } satisfies StreamEvent;
+  });
+  return { events, lastId: ready[ready.length - 1].id, overflow: false };
+}
+
+/** 未処理件数（ヘッダーのバッジ用） */
+export async function countPending(): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from("orders")
+    .select("id", { count: "exact", head: true })
+    .eq("status", "pending");
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
@@ -0,0 +1,83 @@
+// lib/orderSync.ts
+// 管理画面の差分同期（GET /api/orders?updated_since=...）と ETag
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+/** 1回の差分で返す最大件数。超えたら画面は全件を取り直す */
+export const MAX_DELTA_ROWS = 200;
+
+/**
+ * 直前の cursor より少し前から取り直す幅。
+ * updated_at は更新時刻でコミット順ではないので、遅れてコミットされた更新を取りこぼさないよう重ねて読む
+ * （重複分は画面側で上書きされるだけ）。
+ */
+const OVERLAP_MS = 5_000;
+
+export type OrderDelta = {
+  items: Record<string, unknown>[];
+  deleted_ids: string[];
+  /** 次回の updated_since に渡す値 */
+  cursor: string;
+  /** 件数が多すぎて全部は返していない（全件取り直しが必要） */
+  truncated: boolean;
+  /** since より新しい変化があったか（重ねて読んだ分しかなければ false） */
+  advanced: boolean;
+};
+
+/** since 以降に変わった注文（絞り込みはテーブルのみ。ステータス等の出し入れは画面側で判定する） */
+export async function readOrderDelta(since: string, opts: { table?: string | null } = {}): Promise<OrderDelta> {
+  const from = new Date(Date.parse(since) - OVERLAP_MS).toISOString();
+
+  let q = supabaseAdmin
+    .from("orders")
+    .select("*")
+    .gt("updated_at", from)
+    .order("updated_at", { ascending: true })
+    .limit(MAX_DELTA_ROWS + 1);
+  if (opts.table) q = q.eq("table_id", opts.table);
+
+  const [changed, deleted] = await Promise.all([
+    q,
+    supabaseAdmin
+      .from("order_events")
+      .select("order_id, created_at")
+      .eq("type", "deleted")
+      .gt("created_at", from)
+      .order("created_at", { ascending: true })
+      .limit(MAX_DELTA_ROWS + 1),
+  ]);
+  if (changed.error) throw new Error(changed.error.message);
+  if (deleted.error) throw new Error(deleted.error.message);
+
+  const items = (changed.data ?? []) as Record<string, unknown>[];
+  const gone = (deleted.data ?? []) as { order_id: string; created_at: string }[];
+  const truncated = items.length > MAX_DELTA_ROWS || gone.length > MAX_DELTA_ROWS;
+
+  // cursor は実際に見えた最大の時刻（アプリサーバの時計は使わない）
+  let cursor = since;
+  for (const t of [...items.map((o) => String(o.updated_at)), ...gone.map((d) => d.created_at)]) {
+    if (Date.parse(t) > Date.parse(cursor)) cursor = t;
+  }
+
+  return {
+    items: items.slice(0, MAX_DELTA_ROWS),
+    deleted_ids: Array.from(new Set(gone.map((d) => d.order_id))),
+    cursor,
+    truncated,
+    advanced: Date.parse(cursor) > Date.parse(since),
+  };
+}
+
+/** 応答本文の弱い ETag */
+export function weakEtag(body: unknown) {
+  return `W/"${createHash("sha1").update(JSON.stringify(body)).digest("base64url")}"`;
+}
+
+/** If-None-Match が一致するか（カンマ区切り・* に対応） */
+export function etagMatches(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((s) => s.trim())
+    .some((t) => t === "*" || t === etag || t.replace(/^W\//, "") === etag.replace(/^W\//, ""));
+}
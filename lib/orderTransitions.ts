@@ -0,0 +1,113 @@
+// lib/orderTransitions.ts
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { recordOrderEvents, type Actor } from "@/lib/orderEvents";
+import {
+  DEFAULT_TRANSITIONS,
+  ORDER_STATUSES,
+  STATUS_LABELS,
+  STATUS_TIMESTAMP_COLUMN,
+  canTransition,
+  type OrderStatus,
+  type TransitionMap,
+} from "@/lib/orderStatus";
+
+const SETTINGS_TABLE = "app_settings";
+const SETTINGS_KEY = "order_transitions";
+
+const StatusEnum = z.enum(ORDER_STATUSES);
+/** app_settings.value の形：{ transitions: { <from>: [<to>, ...] } }（書いた from だけ上書き） */
+export const TransitionOverrideSchema = z.object({
+  transitions: z.partialRecord(StatusEnum, z.array(StatusEnum)),
+});
+
+/** 現在の遷移ルール（設定が無い・壊れているときは既定値） */
+export async function getTransitions(): Promise<TransitionMap> {
+  const { data, error } = await supabaseAdmin
+    .from(SETTINGS_TABLE)
+    .select("value")
+    .eq("key", SETTINGS_KEY)
+    .maybeSingle();
+  if (error || !data) return DEFAULT_TRANSITIONS;
+
+  const parsed = TransitionOverrideSchema.safeParse(data.value);
+  if (!parsed.success) return DEFAULT_TRANSITIONS;
+  return { ...DEFAULT_TRANSITIONS, ...parsed.data.transitions };
+}
+
+export async function saveTransitions(value: z.infer<typeof TransitionOverrideSchema>) {
+  const { error } = await supabaseAdmin
+    .from(SETTINGS_TABLE)
+    .upsert({ key: SETTINGS_KEY, value }, { onConflict: "key" });
+  if (error) throw new Error(error.message);
+  return getTransitions();
+}
+
+export type TransitionResult =
+  | { ok: true; order: Record<string, unknown>; from: OrderStatus }
+  | { ok: false; status: number; error: string; code?: string; allowed?: OrderStatus[] };
+
+/**
+ * ステータスを遷移させる（許可されていない遷移は 409）。
+ * 遷移先の *_at に時刻を記録し、order_events に履歴を残す。
+ * 読み取り後に他端末が変更していたら 409（上書きしない）。
+ */
+export async function transitionOrder(
+  match: { column: "id" | "order_no"; value: string },
+  to: OrderStatus,
+  actor: Actor,
+): Promise<TransitionResult> {
+  const { data: cur, error } = await supabaseAdmin
+    .from("orders")
+    .select("*")
+    .eq(match.column, match.value)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!cur) return { ok: false, status: 404, error: "not found" };
+
+  const from = cur.status as OrderStatus;
+  if (from === to) return { ok: true, order: cur, from };
+
+  const transitions = await getTransitions();
+  if (!canTransition(transitions, from, to)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `「${STATUS_LABELS[from] ?? from}」から「${STATUS_LABELS[to]}」には変更できません`,
+      code: "invalid_transition",
+      allowed: transitions[from] ?? [],
+    };
+  }
+
+  const patch: Record<string, unknown> = { status: to };
+  const tsCol = STATUS_TIMESTAMP_COLUMN[to];
+  if (tsCol) patch[tsCol] = new Date().toISOString();
+
+  const { data: updated, error: upErr } = await supabaseAdmin
+    .from("orders")
+    .update(patch)
+    .eq("id", cur.id)
+    .eq("status", from)
+    .select()
+    .maybeSingle();
+  if (upErr) return { ok: false, status: 500, error: upErr.message };
+  if (!updated) {
+    return {
+      ok: false,
+      status: 409,
+      error: "他の端末で更新されました。画面を更新してください。",
+      code: "conflict",
+    };
+  }
+
+  await recordOrderEvents(actor, [
+    {
+      order_id: updated.id,
+      order_no: updated.order_no,
+      type: "status_changed",
+      old_value: { status: from },
+      new_value: { status: to },
+    },
+  ]);
+  return { ok: true, order: updated, from };
+}
@@ -0,0 +1,29 @@
+// lib/password.ts
+// パスワードのハッシュ化（scrypt）。保存形式: scrypt$N$r$p$<salt base64>$<hash base64>
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+const N = 16384;
+const R = 8;
+const P = 1;
+const KEY_LEN = 32;
+
+function derive(password: string, salt: Buffer, opts: ScryptOptions, keyLen: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, keyLen, opts, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, { N, r: R, p: P }, KEY_LEN);
+  return ["scrypt", N, R, P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+/** 保存済みハッシュと照合する（形式が壊れていれば false） */
+export async function verifyPassword(password: string, stored: string) {
+  const [alg, n, r, p, salt, hash] = stored.split("$");
+  if (alg !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const key = await derive(password, Buffer.from(salt, "base64"), { N: Number(n), r: Number(r), p: Number(p) }, expected.length);
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,54 @@
+// lib/pricing.ts
+// 注文金額の計算（小計・消費税・合計）。
+// 端数は税率ごとに 1 回だけ切り捨て（インボイス制度の「税率ごとに 1 回」の端数処理）。
+
+export const TAX_RATES = [8, 10] as const;
+export type TaxRate = (typeof TAX_RATES)[number];
+
+/**
+ * メニュー価格が税込か（既定は税込＝総額表示）。
+ * 税抜で登録している店舗は MENU_PRICES_INCLUDE_TAX=false にする。
+ */
+const PRICES_INCLUDE_TAX = process.env.MENU_PRICES_INCLUDE_TAX !== "false";
+
+export type TaxBucket = {
+  rate: TaxRate;
+  /** 税抜金額 */
+  subtotal: number;
+  tax: number;
+};
+
+export type OrderTotals = {
+  /** 税抜合計 */
+  subtotal: number;
+  tax: number;
+  /** 支払総額（税込） */
+  total: number;
+  tax_breakdown: TaxBucket[];
+};
+
+export function computeTotals(
+  lines: { price: number; qty: number; tax_rate?: number }[],
+): OrderTotals {
+  const gross = new Map<TaxRate, number>();
+  for (const line of lines) {
+    const rate: TaxRate = line.tax_rate === 8 ? 8 : 10;
+    gross.set(rate, (gross.get(rate) ?? 0) + line.price * line.qty);
+  }
+
+  const tax_breakdown: TaxBucket[] = [];
+  for (const rate of TAX_RATES) {
+    const amount = gross.get(rate);
+    if (amount === undefined) continue;
+    if (PRICES_INCLUDE_TAX) {
+      const tax = Math.floor((amount * rate) / (100 + rate));
+      tax_breakdown.push({ rate, subtotal: amount - tax, tax });
+    } else {
+      tax_breakdown.push({ rate, subtotal: amount, tax: Math.floor((amount * rate) / 100) });
+    }
+  }
+
+  const subtotal = tax_breakdown.reduce((s, b) => s + b.subtotal, 0);
+  const tax = tax_breakdown.reduce((s, b) => s + b.tax, 0);
+  return { subtotal, tax, total: subtotal + tax, tax_breakdown };
+}
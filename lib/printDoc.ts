@@ -0,0 +1,117 @@
+// lib/printDoc.ts
+// 印刷内容（キッチン伝票・レシート）。プリンタ用の ESC/POS（lib/escpos.ts）と
+// ブラウザ印刷（/admin/print/[id]）の両方がこの形から描く。
+import { jstDateTime } from "@/lib/jst";
+import { billableLines } from "@/lib/orderLines";
+import { lineStatusOf } from "@/lib/orderStatus";
+import type { OrderLine } from "@/lib/menu";
+import type { TaxBucket } from "@/lib/pricing";
+
+export type PrintKind = "kitchen" | "receipt";
+
+export type PrintLine =
+  | { type: "text"; text: string; align?: "left" | "center" | "right"; size?: 1 | 2; bold?: boolean }
+  /** 左右に振り分ける行（品名と数量・金額など） */
+  | { type: "row"; left: string; right: string; size?: 1 | 2; bold?: boolean }
+  | { type: "rule" };
+
+export type PrintDoc = { kind: PrintKind; title: string; lines: PrintLine[] };
+
+/** 印刷に使う注文の列 */
+export const PRINT_ORDER_COLUMNS =
+  "id, order_no, ticket_no, table_label, note, created_at, items, subtotal, tax, total, tax_breakdown";
+
+export type PrintOrder = {
+  id: string;
+  order_no: string;
+  ticket_no: number | null;
+  table_label: string | null;
+  note: string | null;
+  created_at: string;
+  items: OrderLine[];
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  tax_breakdown: TaxBucket[] | null;
+};
+
+/** レシートの見出し（店名）。未設定なら「ご利用明細」だけ */
+const STORE_NAME = process.env.STORE_NAME?.trim() || null;
+
+const yen = (n: number) => `¥${n.toLocaleString("ja-JP")}`;
+
+function header(order: PrintOrder): PrintLine[] {
+  return [
+    {
+      type: "row",
+      left: `#${order.ticket_no ?? order.order_no}`,
+      right: order.table_label ?? "",
+      size: 2,
+      bold: true,
+    },
+    { type: "text", text: `${jstDateTime(order.created_at)}  ${order.order_no}` },
+  ];
+}
+
+/** 明細に付ける選択肢（1行にまとめる） */
+function optionText(line: OrderLine) {
+  return line.options && line.options.length > 0 ? `  ${line.options.map((o) => o.name).join("・")}` : null;
+}
+
+/** 持ち場を割り当てていない明細の伝票に使う持ち場（id は null） */
+export const UNASSIGNED_STATION = { id: null, name: "キッチン" };
+
+/**
+ * 持ち場のキッチン伝票。その持ち場のまだ作っていない明細だけを載せる（なければ null）。
+ * station.id が null なら持ち場を割り当てていない明細を載せる。reprint なら見出しに【再印刷】を付ける。
+ */
+export function kitchenTicketDoc(
+  order: PrintOrder,
+  station: { id: string | null; name: string },
+  opts: { reprint?: boolean } = {},
+): PrintDoc | null {
+  const lines = (order.items ?? []).filter(
+    (l) => (l.station ?? null) === station.id && lineStatusOf(l) === "pending",
+  );
+  if (lines.length === 0) return null;
+
+  const out: PrintLine[] = [];
+  if (opts.reprint) out.push({ type: "text", text: "【再印刷】", align: "center", bold: true });
+  out.push({ type: "text", text: station.name, align: "center", size: 2, bold: true });
+  out.push(...header(order), { type: "rule" });
+  for (const l of lines) {
+    out.push({ type: "row", left: l.name, right: `×${l.qty}`, size: 2, bold: true });
+    const opt = optionText(l);
+    if (opt) out.push({ type: "text", text: opt });
+  }
+  if (order.note) out.push({ type: "rule" }, { type: "text", text: `メモ：${order.note}`, bold: true });
+  return { kind: "kitchen", title: `${station.name} #${order.ticket_no ?? order.order_no}`, lines: out };
+}
+
+/** お客様控えのレシート（取り消した明細は載せない）。軽減税率の対象には ※ を付ける */
+export function receiptDoc(order: PrintOrder, opts: { reprint?: boolean } = {}): PrintDoc {
+  const lines = billableLines(order.items ?? []);
+  const tax = (rate: number) => order.tax_breakdown?.find((b) => b.rate === rate);
+
+  const out: PrintLine[] = [];
+  if (opts.reprint) out.push({ type: "text", text: "【再発行】", align: "center", bold: true });
+  if (STORE_NAME) out.push({ type: "text", text: STORE_NAME, align: "center", size: 2, bold: true });
+  out.push({ type: "text", text: "ご利用明細", align: "center", bold: true });
+  out.push(...header(order), { type: "rule" });
+  for (const l of lines) {
+    out.push({ type: "row", left: `${l.tax_rate === 8 ? "※" : ""}${l.name} ×${l.qty}`, right: yen(l.price * l.qty) });
+    const opt = optionText(l);
+    if (opt) out.push({ type: "text", text: opt });
+  }
+  out.push({ type: "rule" });
+  if (order.subtotal !== null) out.push({ type: "row", left: "小計（税抜）", right: yen(order.subtotal) });
+  for (const rate of [8, 10]) {
+    const b = tax(rate);
+    if (!b) continue;
+    out.push({ type: "row", left: `  ${rate}%対象`, right: yen(b.subtotal + b.tax) });
+    out.push({ type: "row", left: `  内消費税`, right: yen(b.tax) });
+  }
+  if (order.total !== null) out.push({ type: "row", left: "合計", right: yen(order.total), size: 2, bold: true });
+  if (tax(8)) out.push({ type: "text", text: "※は軽減税率（8%）対象" });
+  return { kind: "receipt", title: `レシート #${order.ticket_no ?? order.order_no}`, lines: out };
+}
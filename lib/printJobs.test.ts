@@ -0,0 +1,173 @@
+import net from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { processPrintJobs, tcpTransport, type PrintJob } from "@/lib/printJobs";
+import type { PrintDoc } from "@/lib/printDoc";
+
+// print_jobs を配列で持つ偽の DB（claim_print_jobs と update().eq("id") だけ）
+const db = vi.hoisted(() => ({ jobs: [] as Record<string, unknown>[] }));
+
+vi.mock("@/lib/supabaseAdmin", () => ({
+  supabaseAdmin: {
+    async rpc(name: string, args: { p_limit: number }) {
+      if (name !== "claim_print_jobs") throw new Error(`unexpected rpc: ${name}`);
+      const due = db.jobs
+        .filter((j) => j.status === "queued" && Date.parse(j.next_attempt_at as string) <= Date.now())
+        .slice(0, args.p_limit);
+      for (const j of due) Object.assign(j, { status: "printing", attempts: (j.attempts as number) + 1 });
+      return { data: due.map((j) => ({ ...j })), error: null };
+    },
+    from() {
+      return {
+        update: (patch: Record<string, unknown>) => ({
+          async eq(_col: string, id: unknown) {
+            Object.assign(db.jobs.find((j) => j.id === id) ?? {}, patch);
+            return { error: null };
+          },
+        }),
+      };
+    },
+  },
+}));
+
+const START = Date.parse("2026-10-19T09:00:00Z");
+
+const DOC: PrintDoc = {
+  kind: "kitchen",
+  title: "焼き場 #12",
+  lines: [
+    { type: "text", text: "焼き場", align: "center", size: 2, bold: true },
+    { type: "row", left: "唐揚げ定食", right: "×2" },
+  ],
+};
+
+/** 受け取ったバイト列を接続ごとに貯める偽のプリンタ（raw TCP） */
+async function fakePrinter() {
+  const received: Buffer[] = [];
+  const server = net.createServer((socket) => {
+    const chunks: Buffer[] = [];
+    socket.on("data", (c) => chunks.push(c));
+    socket.on("end", () => {
+      received.push(Buffer.concat(chunks));
+      socket.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  const close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return { port, received, close };
+}
+
+/** 誰も待ち受けていないポート（つなぐと ECONNREFUSED） */
+async function closedPort() {
+  const printer = await fakePrinter();
+  await printer.close();
+  return printer.port;
+}
+
+function queue(port: number): Record<string, unknown> {
+  const job: Partial<PrintJob> = {
+    id: db.jobs.length + 1,
+    order_id: "00000000-0000-0000-0000-000000000001",
+    order_no: "20261019-0012",
+    kind: "kitchen",
+    station_id: "grill",
+    printer_host: "127.0.0.1",
+    printer_port: port,
+    doc: DOC,
+    status: "queued",
+    attempts: 0,
+    next_attempt_at: new Date(Date.now()).toISOString(),
+    last_error: null,
+  };
+  db.jobs.push(job);
+  return job;
+}
+
+/** 次に送る時刻まで時計を進める */
+function skipToNextAttempt(job: Record<string, unknown>) {
+  vi.setSystemTime(Date.parse(job.next_attempt_at as string));
+}
+
+describe("processPrintJobs(tcpTransport)", () => {
+  beforeEach(() => {
+    db.jobs = [];
+    // 送り直しの予約（setTimeout）は発火させず、時計は自分で進める
+    vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"], now: START });
+  });
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it("ESC/POS（初期化・Shift_JIS の本文・カット）をプリンタに送り、印刷済にする", async () => {
+    const printer = await fakePrinter();
+    const job = queue(printer.port);
+    try {
+      expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 1, retrying: 0, failed: 0 });
+    } finally {
+      await printer.close();
+    }
+
+    expect(job).toMatchObject({ status: "printed", attempts: 1, last_error: null });
+    expect(printer.received).toHaveLength(1);
+    const bytes = printer.received[0];
+    expect([...bytes.subarray(0, 2)]).toEqual([0x1b, 0x40]); // ESC @
+    expect([...bytes.subarray(-4)]).toEqual([0x1d, 0x56, 0x42, 0x03]); // GS V（パーシャルカット）
+    const text = new TextDecoder("shift_jis").decode(bytes);
+    expect(text).toContain("焼き場");
+    expect(text).toContain("唐揚げ定食");
+    // UTF-8 のまま送っていない
+    expect(bytes.includes(Buffer.from("唐揚げ", "utf8"))).toBe(false);
+  });
+
+  it("つながらなければ間隔を空けて送り直し、プリンタが戻れば印刷する", async () => {
+    const job = queue(await closedPort());
+
+    expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 0, retrying: 1, failed: 0 });
+    expect(job).toMatchObject({ status: "queued", attempts: 1 });
+    expect(job.last_error).toMatch(/ECONNREFUSED/);
+    expect(Date.parse(job.next_attempt_at as string) - Date.now()).toBe(10_000);
+
+    // 送る時刻の前は取り出されない
+    expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 0, retrying: 0, failed: 0 });
+    expect(job.attempts).toBe(1);
+
+    skipToNextAttempt(job);
+    expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 0, retrying: 1, failed: 0 });
+    expect(job).toMatchObject({ status: "queued", attempts: 2 });
+    expect(Date.parse(job.next_attempt_at as string) - Date.now()).toBe(30_000);
+
+    // プリンタが戻った
+    const printer = await fakePrinter();
+    job.printer_port = printer.port;
+    skipToNextAttempt(job);
+    try {
+      expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 1, retrying: 0, failed: 0 });
+    } finally {
+      await printer.close();
+    }
+    expect(job).toMatchObject({ status: "printed", attempts: 3, last_error: null });
+    expect(printer.received).toHaveLength(1);
+  });
+
+  it("上限回数（5回）失敗したら失敗にして、それ以上は送らない", async () => {
+    const job = queue(await closedPort());
+
+    const delays: number[] = [];
+    for (let i = 1; i <= 4; i++) {
+      expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 0, retrying: 1, failed: 0 });
+      expect(job).toMatchObject({ status: "queued", attempts: i });
+      delays.push((Date.parse(job.next_attempt_at as string) - Date.now()) / 1000);
+      skipToNextAttempt(job);
+    }
+    expect(delays).toEqual([10, 30, 60, 300]);
+
+    expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 0, retrying: 0, failed: 1 });
+    expect(job).toMatchObject({ status: "failed", attempts: 5 });
+    expect(job.last_error).toMatch(/ECONNREFUSED/);
+
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    expect(await processPrintJobs(tcpTransport)).toEqual({ printed: 0, retrying: 0, failed: 0 });
+    expect(job.attempts).toBe(5);
+  });
+});
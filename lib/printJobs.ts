@@ -0,0 +1,241 @@
+// lib/printJobs.ts
+// 印刷キュー。注文が入ったら持ち場ごとのキッチン伝票（と設定があればレシート）を積み、
+// ネットワークプリンタ（raw TCP 9100）に ESC/POS で送る。届かなければ間隔を空けて送り直し、上限で「失敗」にする。
+// プリンタは店内 LAN にあるので、印刷を使うときはサーバも店内（同じネットワーク）で動かす。
+import net from "node:net";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { listStations } from "@/lib/kitchen";
+import { toEscPos } from "@/lib/escpos";
+import {
+  PRINT_ORDER_COLUMNS,
+  UNASSIGNED_STATION,
+  kitchenTicketDoc,
+  receiptDoc,
+  type PrintDoc,
+  type PrintKind,
+  type PrintOrder,
+} from "@/lib/printDoc";
+import { UUIDish } from "@/lib/uuid";
+
+const TABLE = "print_jobs";
+
+/** 送信の上限回数（超えたら failed。管理画面から再試行できる） */
+const MAX_ATTEMPTS = 5;
+
+/** n 回目の失敗のあと次に送るまで（秒） */
+const RETRY_DELAYS_SEC = [10, 30, 60, 300];
+
+/** 接続・送信のタイムアウト */
+const SEND_TIMEOUT_MS = 5000;
+
+/** 「印刷中」のまま止まったもの（送信中にプロセスが落ちた等）を取り直すまで */
+const STALE_SEC = 60;
+
+const BATCH_SIZE = 10;
+
+export type Printer = { host: string; port: number };
+
+/** "host" / "host:port" → プリンタ（空なら null） */
+export function parsePrinter(value: string | null | undefined): Printer | null {
+  const v = value?.trim();
+  if (!v) return null;
+  const m = v.match(/^(.+?)(?::(\d+))?$/);
+  if (!m) return null;
+  return { host: m[1], port: m[2] ? Number(m[2]) : 9100 };
+}
+
+/** お客様控えのレシート用プリンタ。設定すると注文のたびにレシートも出る */
+const RECEIPT_PRINTER = parsePrinter(process.env.RECEIPT_PRINTER);
+
+/** 持ち場を割り当てていない明細の伝票を出すプリンタ */
+const KITCHEN_PRINTER = parsePrinter(process.env.KITCHEN_PRINTER);
+
+export type PrintJobStatus = "queued" | "printing" | "printed" | "failed";
+
+export type PrintJob = {
+  id: number;
+  order_id: string | null;
+  order_no: string | null;
+  kind: PrintKind;
+  station_id: string | null;
+  printer_host: string;
+  printer_port: number;
+  doc: PrintDoc;
+  status: PrintJobStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  requested_by: string | null;
+  created_at: string;
+  printed_at: string | null;
+};
+
+/** 一覧で返す列（doc は大きいので除く） */
+const LIST_COLUMNS =
+  "id, order_id, order_no, kind, station_id, printer_host, printer_port, status, attempts, next_attempt_at, last_error, requested_by, created_at, printed_at";
+
+/** プリンタへの送り方（通常は TCP。差し替えれば実機なしで確かめられる） */
+export type PrintTransport = (printer: Printer, data: Uint8Array) => Promise<void>;
+
+/** raw TCP（9100 番）で送る。書き終えたら切る */
+export const tcpTransport: PrintTransport = ({ host, port }, data) =>
+  new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(SEND_TIMEOUT_MS);
+    socket.once("timeout", () => socket.destroy(new Error(`プリンタが応答しません（${host}:${port}）`)));
+    socket.once("error", reject);
+    socket.once("connect", () =>
+      socket.end(data, () => {
+        resolve();
+        socket.destroy();
+      }),
+    );
+  });
+
+export async function loadPrintOrder(orderId: string) {
+  if (!UUIDish.test(orderId)) return null;
+  const { data, error } = await supabaseAdmin.from("orders").select(PRINT_ORDER_COLUMNS).eq("id", orderId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as PrintOrder | null;
+}
+
+/** 注文の印刷内容（持ち場ごとの伝票とレシート）。プリンタの有無に関係なく全部（ブラウザ印刷用） */
+export async function orderPrintDocs(order: PrintOrder) {
+  const stations = await listStations();
+  const docs: (PrintDoc & { station_id: string | null })[] = [];
+  const unassigned = kitchenTicketDoc(order, UNASSIGNED_STATION);
+  if (unassigned) docs.push({ ...unassigned, station_id: null });
+  for (const s of stations) {
+    const doc = kitchenTicketDoc(order, s);
+    if (doc) docs.push({ ...doc, station_id: s.id });
+  }
+  docs.push({ ...receiptDoc(order), station_id: null });
+  return docs;
+}
+
+export type EnqueueOptions = {
+  /** 既定は伝票とレシート（レシートは RECEIPT_PRINTER があるときだけ） */
+  kinds?: PrintKind[];
+  /** 伝票をこの持ち場だけにする */
+  station?: string | null;
+  reprint?: boolean;
+  requestedBy?: string | null;
+};
+
+/**
+ * 印刷を積む（プリンタを設定した持ち場・レシートだけ）。積んだ件数を返す。
+ * 持ち場を割り当てていない明細の伝票は KITCHEN_PRINTER に出す。
+ * 送るのは processPrintJobs()（注文の応答を待たせないよう after() から呼ぶ）。
+ */
+export async function enqueueOrderPrints(order: PrintOrder, opts: EnqueueOptions = {}) {
+  const kinds = opts.kinds ?? ["kitchen", "receipt"];
+  const rows: Record<string, unknown>[] = [];
+  const base = { order_id: order.id, order_no: order.order_no, requested_by: opts.requestedBy ?? null };
+
+  if (kinds.includes("kitchen")) {
+    const stations = await listStations();
+    for (const s of stations) {
+      if (!s.printer_host || (opts.station && s.id !== opts.station)) continue;
+      const doc = kitchenTicketDoc(order, s, { reprint: opts.reprint });
+      if (!doc) continue;
+      rows.push({ ...base, kind: "kitchen", station_id: s.id, printer_host: s.printer_host, printer_port: s.printer_port, doc });
+    }
+
+    const unassigned = opts.station ? null : kitchenTicketDoc(order, UNASSIGNED_STATION, { reprint: opts.reprint });
+    if (unassigned && KITCHEN_PRINTER) {
+      rows.push({ ...base, kind: "kitchen", printer_host: KITCHEN_PRINTER.host, printer_port: KITCHEN_PRINTER.port, doc: unassigned });
+    } else if (unassigned && (RECEIPT_PRINTER || stations.some((s) => s.printer_host))) {
+      // 印刷を使っているのに伝票が出ないのは気付きにくいので、設定漏れとして残す
+      console.warn(`[print_jobs] ${order.order_no}: 持ち場のない明細の伝票を出せません（KITCHEN_PRINTER が未設定）`);
+    }
+  }
+  if (kinds.includes("receipt") && RECEIPT_PRINTER) {
+    const doc = receiptDoc(order, { reprint: opts.reprint });
+    rows.push({ ...base, kind: "receipt", printer_host: RECEIPT_PRINTER.host, printer_port: RECEIPT_PRINTER.port, doc });
+  }
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabaseAdmin.from(TABLE).insert(rows);
+  if (error) throw new Error(error.message);
+  return rows.length;
+}
+
+/** 送り直しの予約（常駐サーバ向け。サーバレスでは次の注文・定期実行のときに拾われる） */
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleRetry(delaySec: number) {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processPrintJobs().catch((e) => console.error("[print_jobs] retry failed:", e));
+  }, delaySec * 1000);
+  retryTimer.unref?.();
+}
+
+/** 送る番の印刷をプリンタに送る。結果の件数を返す */
+export async function processPrintJobs(transport: PrintTransport = tcpTransport) {
+  const result = { printed: 0, retrying: 0, failed: 0 };
+  for (;;) {
+    const { data, error } = await supabaseAdmin.rpc("claim_print_jobs", { p_limit: BATCH_SIZE, p_stale_sec: STALE_SEC });
+    if (error) throw new Error(error.message);
+    const jobs = (data ?? []) as PrintJob[];
+    if (jobs.length === 0) break;
+
+    for (const job of jobs) {
+      try {
+        await transport({ host: job.printer_host, port: job.printer_port }, toEscPos(job.doc));
+        await supabaseAdmin
+          .from(TABLE)
+          .update({ status: "printed", printed_at: new Date().toISOString(), last_error: null, locked_at: null })
+          .eq("id", job.id);
+        result.printed++;
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        const giveUp = job.attempts >= MAX_ATTEMPTS;
+        const delay = RETRY_DELAYS_SEC[Math.min(job.attempts - 1, RETRY_DELAYS_SEC.length - 1)];
+        await supabaseAdmin
+          .from(TABLE)
+          .update({
+            status: giveUp ? "failed" : "queued",
+            last_error: msg,
+            locked_at: null,
+            next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+          })
+          .eq("id", job.id);
+        if (giveUp) result.failed++;
+        else {
+          result.retrying++;
+          scheduleRetry(delay);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/** 新しい順。注文・状態で絞り込める */
+export async function listPrintJobs(filter: { orderId?: string; status?: PrintJobStatus; limit?: number } = {}) {
+  let q = supabaseAdmin
+    .from(TABLE)
+    .select(LIST_COLUMNS)
+    .order("id", { ascending: false })
+    .limit(filter.limit ?? 100);
+  if (filter.orderId) q = q.eq("order_id", filter.orderId);
+  if (filter.status) q = q.eq("status", filter.status);
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return (data ?? []) as Omit<PrintJob, "doc">[];
+}
+
+/** 失敗した印刷をもう一度送る番に戻す（回数は数え直し）。戻せたら true */
+export async function retryPrintJob(id: number) {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ status: "queued", attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "failed")
+    .select("id")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return Boolean(data);
+}
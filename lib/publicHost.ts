@@ -0,0 +1,73 @@
+// lib/publicHost.ts
+// 外部への送信先（Webhook の URL 等）が、サーバの内側（ループバック・リンクローカル・プライベート）を指していないかの確認。
+// 登録時だけでなく送るときの名前解決でも確かめる（登録後に DNS を差し替えて内側を向ける手口よけ）。
+import dns from "node:dns";
+import net from "node:net";
+
+/** 開発中（next dev）は手元の受け口に送れるよう確認を緩める */
+export const ALLOW_PRIVATE_HOSTS = process.env.NODE_ENV === "development";
+
+const BLOCKED = new net.BlockList();
+for (const [addr, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // キャリアグレード NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // リンクローカル（クラウドのメタデータ 169.254.169.254 を含む）
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4], // マルチキャスト
+  ["240.0.0.0", 4], // 予約・ブロードキャスト
+] as const) {
+  BLOCKED.addSubnet(addr, prefix, "ipv4");
+}
+for (const [addr, prefix] of [
+  ["::", 127], // 未指定・ループバック
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // ユニークローカル
+  ["fe80::", 10], // リンクローカル
+  ["ff00::", 8], // マルチキャスト
+] as const) {
+  BLOCKED.addSubnet(addr, prefix, "ipv6");
+}
+
+/** インターネット側のアドレスか */
+export function isPublicAddress(address: string) {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  // IPv4 射影（::ffff:127.0.0.1 等）は v4 側で判定する
+  const mapped = family === 6 ? address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1] : undefined;
+  if (mapped) return isPublicAddress(mapped);
+  return !BLOCKED.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function blockedError(hostname: string, address: string) {
+  return new Error(`内部のアドレスには送れません（${hostname} → ${address}）`);
+}
+
+/**
+ * http(s).request の lookup に渡す名前解決。内側のアドレスが1つでも混じっていたら接続しない。
+ * IP 直書きのホストは lookup を通らないので、送る前に assertPublicHost() で確かめること。
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    const list = addresses as dns.LookupAddress[];
+    const bad = ALLOW_PRIVATE_HOSTS ? undefined : list.find((a) => !isPublicAddress(a.address));
+    if (bad) return callback(blockedError(hostname, bad.address), "", 0);
+    if (list.length === 0) return callback(new Error(`名前解決できません（${hostname}）`), "", 0);
+    if ((options as dns.LookupOptions).all) return (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(null, list);
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+/** ホスト名（または IP）を解決して、すべてインターネット側のアドレスか確かめる。内側なら例外 */
+export async function assertPublicHost(hostname: string) {
+  if (ALLOW_PRIVATE_HOSTS) return;
+  const host = hostname.replace(/^\[(.*)\]$/, "$1"); // URL の IPv6 表記 [::1]
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+  const bad = addresses.find((a) => !isPublicAddress(a.address));
+  if (bad) throw blockedError(hostname, bad.address);
+}
@@ -0,0 +1,83 @@
+// lib/publicOrder.ts
+// お客様向けの注文状況（/o/[order_no]）。注文番号＋公開トークンが一致したときだけ返す。
+import { timingSafeEqual } from "crypto";
+import { customAlphabet } from "nanoid";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { ACTIVE_STATUSES, type OrderStatus } from "@/lib/orderStatus";
+import type { OrderLine } from "@/lib/menu";
+
+/** URL に載せる公開トークン（英数字 24 文字 ≒ 142bit） */
+export const newPublicToken = customAlphabet(
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz",
+  24,
+);
+
+/** 注文状況ページの URL のクエリ名 */
+export const PUBLIC_TOKEN_PARAM = "t";
+
+/** 状況ページのパス（origin はこのアプリ） */
+export function publicOrderPath(orderNo: string, token: string) {
+  return `/o/${encodeURIComponent(orderNo)}?${PUBLIC_TOKEN_PARAM}=${encodeURIComponent(token)}`;
+}
+
+/** お客様に見せる項目だけ（メモ・操作履歴・内部 ID は出さない） */
+export type PublicOrder = {
+  order_no: string;
+  /** 呼び出し番号（その日の連番） */
+  ticket_no: number | null;
+  status: OrderStatus;
+  items: Pick<OrderLine, "name" | "qty" | "options" | "status">[];
+  total: number | null;
+  table_label: string | null;
+  created_at: string;
+  ready_at: string | null;
+  served_at: string | null;
+  /** 自分より前に待っている注文の数＋1（進行中のときだけ） */
+  queue_position: number | null;
+};
+
+/** 公開トークンの比較（長さ以外の情報を時間差で漏らさない） */
+export function tokenMatches(expected: string | null, actual: string) {
+  if (!expected) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** 注文番号＋トークンで照会。一致しなければ null（存在するかどうかも区別しない） */
+export async function getPublicOrder(orderNo: string, token: string): Promise<PublicOrder | null> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("id, order_no, ticket_no, status, items, total, table_label, created_at, ready_at, served_at, public_token")
+    .eq("order_no", orderNo)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data || !tokenMatches(data.public_token, token)) return null;
+
+  // 調理待ちの順番：提供待ち（ready）になったら呼び出し済みなので数えない
+  let queuePosition: number | null = null;
+  const waiting = ACTIVE_STATUSES.filter((s) => s !== "ready");
+  if ((waiting as readonly string[]).includes(data.status)) {
+    const { count, error: cErr } = await supabaseAdmin
+      .from("orders")
+      .select("id", { count: "exact", head: true })
+      .in("status", waiting)
+      .is("cleared_at", null)
+      .lt("created_at", data.created_at);
+    if (cErr) throw new Error(cErr.message);
+    queuePosition = (count ?? 0) + 1;
+  }
+
+  return {
+    order_no: data.order_no,
+    ticket_no: data.ticket_no,
+    status: data.status,
+    items: ((data.items ?? []) as OrderLine[]).map(({ name, qty, options, status }) => ({ name, qty, options, status })),
+    total: data.total,
+    table_label: data.table_label,
+    created_at: data.created_at,
+    ready_at: data.ready_at,
+    served_at: data.served_at,
+    queue_position: queuePosition,
+  };
+}
@@ -0,0 +1,39 @@
+// lib/roles.ts
+// スタッフの役割と権限。クライアント（ボタンの出し分け）とサーバ（API の判定）の両方から使う。
+
+export const STAFF_ROLES = ["owner", "manager", "kitchen"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: "オーナー",
+  manager: "店長",
+  kitchen: "キッチン",
+};
+
+/**
+ * 操作ごとに許可する役割。ここに無い操作はログインしていれば誰でも可で、
+ * キッチンの日々の作業（注文・明細のステータス更新、調理済み、売り切れの切り替え、伝票の再印刷）がそれにあたる。
+ */
+export const PERMISSIONS = {
+  clear_orders: ["owner", "manager"],
+  toggle_stop: ["owner", "manager"],
+  cancel_order: ["owner", "manager"],
+  edit_order_rules: ["owner", "manager"],
+  manage_menu: ["owner", "manager"],
+  manage_tables: ["owner", "manager"],
+  manage_stations: ["owner", "manager"],
+  manage_staff: ["owner"],
+  purge_orders: ["owner"],
+  manage_webhooks: ["owner"],
+} as const satisfies Record<string, readonly StaffRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function can(role: StaffRole, permission: Permission) {
+  return (PERMISSIONS[permission] as readonly StaffRole[]).includes(role);
+}
+
+/** 役割が持つ権限の一覧（画面に渡す用） */
+export function permissionsOf(role: StaffRole): Permission[] {
+  return (Object.keys(PERMISSIONS) as Permission[]).filter((p) => can(role, p));
+}
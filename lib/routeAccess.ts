@@ -0,0 +1,54 @@
+// lib/routeAccess.ts
+// API ルートの公開/管理者専用の振り分け表。
+// middleware（Edge）と各ルートの両方から参照する。
+
+export type RouteAccess = "public" | "admin";
+
+type Rule = {
+  /** パス（[param] は 1 セグメントに一致） */
+  path: string;
+  /** メソッドごとのアクセス区分。未定義メソッドは admin 扱い */
+  methods: Partial<Record<string, RouteAccess>>;
+};
+
+// 先に一致したものが使われるので、固定パスは [param] より前に書く
+const RULES: Rule[] = [
+  // お客様サイト向け
+  { path: "/api/public/status", methods: { GET: "public" } },
+  { path: "/api/public/menu", methods: { GET: "public" } },
+  // 注文状況ページ（公開トークンで保護）
+  { path: "/api/public/orders/[order_no]", methods: { GET: "public" } },
+  { path: "/api/public/orders/[order_no]/stream", methods: { GET: "public" } },
+  { path: "/api/orders", methods: { POST: "public", GET: "admin" } },
+  { path: "/api/orders/stop", methods: { GET: "public" } },
+  { path: "/api/orders/reset", methods: { POST: "admin" } },
+  { path: "/api/orders/export", methods: { GET: "admin" } },
+  { path: "/api/orders/stream", methods: { GET: "admin" } },
+  // 注文の照会（お客様が自分の注文を見る）は公開トークン付きなら可、更新は管理者
+  { path: "/api/orders/[id]", methods: { GET: "public", PATCH: "admin" } },
+  { path: "/api/orders/[id]/items/[index]", methods: { PATCH: "admin" } },
+  { path: "/api/orders/[id]/print", methods: { GET: "admin", POST: "admin" } },
+
+  // 管理系
+  { path: "/api/admin/login", methods: { GET: "public", POST: "public" } },
+  { path: "/api/admin/logout", methods: { POST: "public" } },
+  // 定期実行（CRON_SECRET はルート側で確かめる。管理者のセッションでも呼べる）
+  { path: "/api/admin/print-jobs", methods: { GET: "admin", POST: "public" } },
+  { path: "/api/admin/retention", methods: { POST: "public" } },
+  { path: "/api/admin/webhooks/deliveries", methods: { GET: "admin", POST: "public" } },
+];
+
+function matchPath(pattern: string, pathname: string) {
+  const a = pattern.split("/").filter(Boolean);
+  const b = pathname.replace(/\/+$/, "").split("/").filter(Boolean);
+  if (a.length !== b.length) return false;
+  return a.every((seg, i) => (seg.startsWith("[") && seg.endsWith("]")) || seg === b[i]);
+}
+
+/** パスとメソッドからアクセス区分を決める（表にないものは安全側で admin） */
+export function routeAccess(pathname: string, method: string): RouteAccess {
+  if (method === "OPTIONS") return "public"; // CORS プリフライトは常に通す
+  const rule = RULES.find((r) => matchPath(r.path, pathname));
+  if (!rule) return "admin";
+  return rule.methods[method] ?? (method === "HEAD" ? rule.methods.GET : undefined) ?? "admin";
+}
@@ -0,0 +1,14 @@
+// lib/safeJson.ts
+
+/** APIレスポンスを安全にJSON化（空や非JSONなら {} を返す） */
+export async function safeJson<T = Record<string, unknown>>(res: Response): Promise<Partial<T>> {
+  try {
+    const ct = res.headers.get("content-type") || "";
+    if (!ct.includes("json")) return {};
+    const text = await res.text();
+    if (!text) return {};
+    return JSON.parse(text) as Partial<T>;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,112 @@
+// lib/session.ts
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { SESSION_MAX_AGE_SEC } from "@/lib/sessionCookie";
+import type { StaffRole } from "@/lib/roles";
+
+const TABLE = "admin_sessions";
+
+/** 無操作タイムアウト（既定 12時間。ADMIN_SESSION_IDLE_MINUTES で変更可） */
+const IDLE_TIMEOUT_SEC = Math.max(Number(process.env.ADMIN_SESSION_IDLE_MINUTES ?? 720), 1) * 60;
+
+/** last_seen_at の更新間隔（毎リクエスト書き込まないよう間引く） */
+const TOUCH_INTERVAL_SEC = 60;
+
+/** セッションの持ち主（役割は毎回 staff から読むので、変更はすぐ効く） */
+export type SessionStaff = { id: string; name: string; role: StaffRole };
+
+export type AdminSession = {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  staff: SessionStaff;
+};
+
+/** クッキーのトークン → DB に保存するハッシュ（共有端末のトークンも同じ方式） */
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** 新しいセッションを発行（ログイン時。トークンは呼び出し側でクッキーへ） */
+export async function createSession(
+  staffId: string,
+  meta: { userAgent?: string | null; ip?: string | null } = {},
+) {
+  const token = nanoid(43);
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SEC * 1000).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .insert({
+      token_hash: hashToken(token),
+      staff_id: staffId,
+      expires_at: expiresAt,
+      user_agent: meta.userAgent ?? null,
+      ip: meta.ip ?? null,
+    })
+    .select("id, created_at, last_seen_at, expires_at")
+    .single();
+
+  if (error) throw new Error(error.message);
+  return { token, session: data as Omit<AdminSession, "staff"> };
+}
+
+/**
+ * トークンを検証してセッションを返す。
+ * 失効・期限切れ・無操作タイムアウト・スタッフが無効のいずれかなら null。
+ */
+export async function getSession(token: string): Promise<AdminSession | null> {
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("id, created_at, last_seen_at, expires_at, revoked_at, staff:staff_id (id, name, role, active)")
+    .eq("token_hash", hashToken(token))
+    .maybeSingle();
+
+  if (error || !data || data.revoked_at) return null;
+  const staff = data.staff as unknown as (SessionStaff & { active: boolean }) | null;
+  if (!staff?.active) return null;
+
+  const now = Date.now();
+  if (new Date(data.expires_at).getTime() <= now) return null;
+
+  const idleSec = (now - new Date(data.last_seen_at).getTime()) / 1000;
+  if (idleSec > IDLE_TIMEOUT_SEC) return null;
+
+  // 最終アクセスを間引いて更新（無操作タイムアウトの起点）
+  if (idleSec > TOUCH_INTERVAL_SEC) {
+    const lastSeen = new Date(now).toISOString();
+    await supabaseAdmin.from(TABLE).update({ last_seen_at: lastSeen }).eq("id", data.id);
+    data.last_seen_at = lastSeen;
+  }
+
+  return {
+    id: data.id,
+    created_at: data.created_at,
+    last_seen_at: data.last_seen_at,
+    expires_at: data.expires_at,
+    staff: { id: staff.id, name: staff.name, role: staff.role },
+  };
+}
+
+/** セッションを失効させる（ログアウト・ログイン時のローテーション） */
+export async function revokeSession(token: string) {
+  if (!token) return;
+  await supabaseAdmin
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("token_hash", hashToken(token))
+    .is("revoked_at", null);
+}
+
+/** あるスタッフのセッションをすべて失効させる（無効化・パスワード変更時） */
+export async function revokeStaffSessions(staffId: string) {
+  await supabaseAdmin
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("staff_id", staffId)
+    .is("revoked_at", null);
+}
@@ -0,0 +1,23 @@
+// lib/sessionCookie.ts
+// セッションクッキーの定義。middleware（Edge）からも読むので DB 等は import しないこと。
+
+/** 管理セッションのクッキー名（値はランダムトークン。DB にはハッシュのみ保存） */
+export const SESSION_COOKIE = "admin_session";
+
+/** 絶対有効期限（クッキー寿命と同じ 7日） */
+export const SESSION_MAX_AGE_SEC = 60 * 60 * 24 * 7;
+
+/** クッキー属性（本番は https 前提で secure） */
+export function sessionCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  };
+}
+
+/** 共有端末（キッチンのタブレット等）のクッキー名。登録は長く保つ（180日） */
+export const DEVICE_COOKIE = "kitchen_device";
+export const DEVICE_MAX_AGE_SEC = 60 * 60 * 24 * 180;
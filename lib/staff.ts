@@ -0,0 +1,201 @@
+// lib/staff.ts
+// スタッフアカウント（ログイン・役割・オーナーによる管理）
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { hashPassword, verifyPassword } from "@/lib/password";
+import { revokeStaffSessions } from "@/lib/session";
+import { lockStaffDevices } from "@/lib/devices";
+import { STAFF_ROLES, type StaffRole } from "@/lib/roles";
+
+const TABLE = "staff";
+
+/** 一覧・応答で読む列（password_hash は読まない。pin_hash は toStaff で has_pin にする） */
+const STAFF_COLUMNS = "id, login_id, name, role, active, pin_hash, last_login_at, created_at, updated_at";
+
+const LoginIdSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[A-Za-z0-9_.-]+$/, "ログインIDは半角英数字・_・.・- のみ");
+const PasswordSchema = z.string().min(8, "パスワードは8文字以上").max(200);
+/** 共有端末で担当者を切り替えるときの PIN */
+const PinSchema = z.string().regex(/^\d{4,8}$/, "PIN は4〜8桁の数字");
+
+export const StaffCreateSchema = z.object({
+  login_id: LoginIdSchema,
+  name: z.string().trim().min(1).max(50),
+  role: z.enum(STAFF_ROLES),
+  password: PasswordSchema,
+});
+export const StaffPatchSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50),
+    role: z.enum(STAFF_ROLES),
+    active: z.boolean(),
+    password: PasswordSchema,
+    /** null で PIN を消す（その人は共有端末で切り替えられなくなる） */
+    pin: PinSchema.nullable(),
+  })
+  .partial();
+
+export type Staff = {
+  id: string;
+  login_id: string;
+  name: string;
+  role: StaffRole;
+  active: boolean;
+  /** 共有端末用の PIN を設定済みか */
+  has_pin: boolean;
+  last_login_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StaffResult =
+  | { ok: true; staff: Staff }
+  | { ok: false; status: number; error: string; code?: string };
+
+/** DB の行 → 応答用（ハッシュは has_pin に置き換えて外に出さない） */
+function toStaff(row: Record<string, unknown>): Staff {
+  const { pin_hash, ...rest } = row;
+  return { ...(rest as Omit<Staff, "has_pin">), has_pin: Boolean(pin_hash) };
+}
+
+export async function listStaff() {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(STAFF_COLUMNS)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(toStaff);
+}
+
+export async function createStaff(input: z.infer<typeof StaffCreateSchema>): Promise<StaffResult> {
+  const { password, ...rest } = input;
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .insert({ ...rest, password_hash: await hashPassword(password) })
+    .select(STAFF_COLUMNS)
+    .single();
+  if (error) {
+    if (error.code === "23505") {
+      return { ok: false, status: 409, error: "同じログインIDのスタッフが既にいます", code: "duplicate" };
+    }
+    return { ok: false, status: 500, error: error.message };
+  }
+  return { ok: true, staff: toStaff(data) };
+}
+
+/** 有効なオーナーが他にいるか（最後のオーナーを外すとだれも管理できなくなる） */
+async function hasOtherOwner(exceptId: string) {
+  const { count, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("id", { count: "exact", head: true })
+    .eq("role", "owner")
+    .eq("active", true)
+    .neq("id", exceptId);
+  if (error) throw new Error(error.message);
+  return (count ?? 0) > 0;
+}
+
+const LAST_OWNER: StaffResult = {
+  ok: false,
+  status: 409,
+  error: "有効なオーナーが1人もいなくなるため変更できません",
+  code: "last_owner",
+};
+
+/**
+ * 名前・役割・有効/無効・パスワード・PIN の変更。
+ * 無効化・パスワード変更をしたら、その人のログイン中のセッションは失効させる。
+ * PIN を変えた・消したら、その人が担当中の共有端末はロックする。
+ */
+export async function updateStaff(id: string, patch: z.infer<typeof StaffPatchSchema>): Promise<StaffResult> {
+  const { data: cur, error } = await supabaseAdmin.from(TABLE).select(STAFF_COLUMNS).eq("id", id).maybeSingle();
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!cur) return { ok: false, status: 404, error: "not found" };
+
+  const losesOwner =
+    cur.role === "owner" && cur.active && ((patch.role && patch.role !== "owner") || patch.active === false);
+  if (losesOwner && !(await hasOtherOwner(id))) return LAST_OWNER;
+
+  const { password, pin, ...rest } = patch;
+  const update: Record<string, unknown> = { ...rest, updated_at: new Date().toISOString() };
+  if (password) update.password_hash = await hashPassword(password);
+  if (pin !== undefined) update.pin_hash = pin ? await hashPassword(pin) : null;
+
+  const { data, error: upErr } = await supabaseAdmin
+    .from(TABLE)
+    .update(update)
+    .eq("id", id)
+    .select(STAFF_COLUMNS)
+    .single();
+  if (upErr) return { ok: false, status: 500, error: upErr.message };
+
+  if (password || patch.active === false) await revokeStaffSessions(id);
+  if (pin !== undefined) await lockStaffDevices(id);
+  return { ok: true, staff: toStaff(data) };
+}
+
+/** 削除（セッションも消える）。監査ログには操作時の名前が残る */
+export async function deleteStaff(id: string): Promise<StaffResult> {
+  const { data: cur, error } = await supabaseAdmin.from(TABLE).select(STAFF_COLUMNS).eq("id", id).maybeSingle();
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!cur) return { ok: false, status: 404, error: "not found" };
+  if (cur.role === "owner" && cur.active && !(await hasOtherOwner(id))) return LAST_OWNER;
+
+  const { error: delErr } = await supabaseAdmin.from(TABLE).delete().eq("id", id);
+  if (delErr) return { ok: false, status: 500, error: delErr.message };
+  return { ok: true, staff: toStaff(cur) };
+}
+
+/** スタッフが1人も登録されていないか（初回セットアップ判定） */
+async function noStaffYet() {
+  const { count, error } = await supabaseAdmin.from(TABLE).select("id", { count: "exact", head: true });
+  if (error) throw new Error(error.message);
+  return (count ?? 0) === 0;
+}
+
+/** 定数時間の比較（長さの違いも漏らさないようハッシュ同士で比べる） */
+function sameSecret(a: string, b: string) {
+  const digest = (v: string) => createHash("sha256").update(v).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/** 存在しないアカウントでも同じだけ時間をかけるための照合相手 */
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * ログインID・パスワードを確かめる。一致しなければ null。
+ * スタッフが未登録のときだけ、ADMIN_PASSWORD で入った人を最初のオーナーとして登録する。
+ */
+export async function authenticateStaff(loginId: string, password: string): Promise<Staff | null> {
+  if (!loginId || !password) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(`${STAFF_COLUMNS}, password_hash`)
+    .eq("login_id", loginId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  if (!data) {
+    // 応答時間でアカウントの有無が分からないよう、ない場合もハッシュ計算はする
+    dummyHash ??= hashPassword("dummy-password");
+    await verifyPassword(password, await dummyHash);
+    const bootstrap = process.env.ADMIN_PASSWORD;
+    if (!bootstrap || !sameSecret(password, bootstrap) || !LoginIdSchema.safeParse(loginId).success) return null;
+    if (!(await noStaffYet())) return null;
+    const created = await createStaff({ login_id: loginId, name: loginId, role: "owner", password });
+    return created.ok ? created.staff : null;
+  }
+
+  const { password_hash, ...row } = data;
+  const staff = toStaff(row);
+  const valid = await verifyPassword(password, password_hash);
+  if (!valid || !staff.active) return null;
+
+  await supabaseAdmin.from(TABLE).update({ last_login_at: new Date().toISOString() }).eq("id", staff.id);
+  return staff;
+}
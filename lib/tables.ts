@@ -0,0 +1,123 @@
+// lib/tables.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+const TABLE = "tables";
+
+export const TableSchema = z.object({
+  code: z.string().min(1).max(20),
+  label: z.string().min(1).max(50),
+  seats: z.number().int().positive().nullable().optional(),
+  active: z.boolean().optional(),
+  sort_order: z.number().int().optional(),
+});
+export const TablePatchSchema = TableSchema.partial();
+
+export type DiningTable = {
+  id: string;
+  code: string;
+  label: string;
+  seats: number | null;
+  active: boolean;
+  token_version: number;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+/** お客様サイトの URL（QR の飛び先） */
+const CUSTOMER_ORIGIN =
+  process.env.CUSTOMER_SITE_ORIGIN ||
+  process.env.NEXT_PUBLIC_SITE_ORIGIN ||
+  "https://qr-order-sigma.vercel.app";
+
+/** QR の URL に付けるクエリ名 */
+export const TABLE_TOKEN_PARAM = "table";
+
+function secret() {
+  const s = process.env.TABLE_TOKEN_SECRET;
+  if (!s) throw new Error("Missing env: TABLE_TOKEN_SECRET");
+  return s;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+/** テーブル用トークン：`<id>.<version>.<HMAC>` */
+export function signTableToken(t: Pick<DiningTable, "id" | "token_version">) {
+  const payload = `${t.id}.${t.token_version}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/** 署名だけを検証（DB は見ない）。改ざん・形式不正なら null */
+export function verifyTableToken(token: string): { id: string; version: number } | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [id, ver, sig] = parts;
+  const expected = Buffer.from(sign(`${id}.${ver}`));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  const version = Number(ver);
+  if (!Number.isInteger(version)) return null;
+  return { id, version };
+}
+
+/** トークンからテーブルを引く（無効化済み・再発行前の古いトークンは null） */
+export async function resolveTableToken(token: string): Promise<DiningTable | null> {
+  const v = verifyTableToken(token);
+  if (!v) return null;
+  const { data, error } = await supabaseAdmin.from(TABLE).select("*").eq("id", v.id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data || !data.active || data.token_version !== v.version) return null;
+  return data as DiningTable;
+}
+
+/** QR に載せる注文ページの URL */
+export function customerOrderUrl(t: Pick<DiningTable, "id" | "token_version">) {
+  const u = new URL("/", CUSTOMER_ORIGIN);
+  u.searchParams.set(TABLE_TOKEN_PARAM, signTableToken(t));
+  return u.toString();
+}
+
+/** 注文 URL の QR コード（SVG 文字列）。外部サービスは使わずサーバ側で生成 */
+export function tableQrSvg(t: Pick<DiningTable, "id" | "token_version">) {
+  return QRCode.toString(customerOrderUrl(t), {
+    type: "svg",
+    errorCorrectionLevel: "M",
+    margin: 1,
+  });
+}
+
+/**
+ * QR の再発行（token_version を上げて古い QR を無効化）。
+ * 同時操作で二重に上がらないよう現在のバージョンを条件に更新する。
+ */
+export async function regenerateTableToken(id: string): Promise<DiningTable | null> {
+  const { data: cur, error } = await supabaseAdmin.from(TABLE).select("token_version").eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!cur) return null;
+
+  const { data, error: upErr } = await supabaseAdmin
+    .from(TABLE)
+    .update({ token_version: cur.token_version + 1, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("token_version", cur.token_version)
+    .select()
+    .maybeSingle();
+  if (upErr) throw new Error(upErr.message);
+  if (!data) return regenerateTableToken(id); // 他の操作と競合したら取り直す
+  return data as DiningTable;
+}
+
+export async function listTables() {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("code", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as DiningTable[];
+}
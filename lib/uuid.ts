@@ -0,0 +1,6 @@
+// lib/uuid.ts
+// id 列（uuid 型）に UUID 以外を渡すと Postgres がエラーを返すので、引く前に形を確かめる
+
+/** UUID らしさの簡易判定 */
+export const UUIDish =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -0,0 +1,12 @@
+// lib/webhookEvents.ts
+// Webhook で送る出来事の一覧。クライアント（設定画面）とサーバ（lib/webhooks.ts）の両方から使う。
+
+export const WEBHOOK_EVENTS = ["order.created", "order.status_changed", "order_stop.changed", "order.cleared"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "order.created": "注文の作成",
+  "order.status_changed": "ステータスの変更",
+  "order_stop.changed": "注文受付の停止・再開",
+  "order.cleared": "処理済みクリア",
+};
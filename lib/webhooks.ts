@@ -0,0 +1,385 @@
+// lib/webhooks.ts
+// 外部連携（Webhook）。POS・LINE ボット等に注文の出来事を署名付き JSON で送る。
+// 出来事ごとに送り先の数だけ配信を積み、失敗は間隔を倍々に空けて送り直す。上限を超えたら dead（管理画面から再送できる）。
+import { createHmac, randomUUID } from "crypto";
+import http from "node:http";
+import https from "node:https";
+import { after } from "next/server";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Actor, OrderEventInput } from "@/lib/orderEvents";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@/lib/webhookEvents";
+import { ALLOW_PRIVATE_HOSTS, assertPublicHost, publicOnlyLookup } from "@/lib/publicHost";
+
+const ENDPOINTS = "webhook_endpoints";
+const DELIVERIES = "webhook_deliveries";
+
+/** 監査ログの種類 → 送る出来事（ここにないもの＝メモの変更等は送らない） */
+const FROM_ORDER_EVENT: Partial<Record<OrderEventInput["type"], WebhookEvent>> = {
+  created: "order.created",
+  status_changed: "order.status_changed",
+  cleared: "order.cleared",
+};
+
+/** 送信の上限回数（超えたら dead） */
+const MAX_ATTEMPTS = 8;
+
+/** n 回目の失敗のあと次に送るまで：30秒 × 2^(n-1)（最大 1 時間） */
+const BASE_DELAY_SEC = 30;
+const MAX_DELAY_SEC = 60 * 60;
+
+/** 受け手の応答を待つ時間 */
+const SEND_TIMEOUT_MS = 10_000;
+
+/** 「送信中」のまま止まったものを取り直すまで */
+const STALE_SEC = 120;
+
+const BATCH_SIZE = 20;
+
+/** 配信ログに残す応答本文の長さ */
+const RESPONSE_LOG_LENGTH = 500;
+
+export const WebhookEndpointSchema = z.object({
+  // 開発中（next dev）だけ http:// も許す
+  url: z
+    .string()
+    .trim()
+    .max(2000)
+    .regex(
+      ALLOW_PRIVATE_HOSTS ? /^https?:\/\/\S+$/ : /^https:\/\/\S+$/,
+      ALLOW_PRIVATE_HOSTS ? "http:// または https:// で始まる URL を入力してください" : "https:// で始まる URL を入力してください",
+    ),
+  description: z.string().trim().max(100).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "送る出来事を1つ以上選んでください"),
+  active: z.boolean().optional(),
+});
+export const WebhookEndpointPatchSchema = WebhookEndpointSchema.partial().extend({
+  /** true なら署名の鍵を作り直す */
+  rotate_secret: z.boolean().optional(),
+});
+
+export type WebhookEndpoint = {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "delivering" | "delivered" | "dead";
+
+export type WebhookDelivery = {
+  id: number;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  last_response: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+/** 送る本文 */
+export type WebhookPayload = {
+  id: string;
+  type: WebhookEvent;
+  created_at: string;
+  data: Record<string, unknown>;
+};
+
+const newSecret = () => `whsec_${nanoid(32)}`;
+
+/**
+ * 署名ヘッダの値："t=<UNIX秒>,v1=<HMAC-SHA256(secret, "<t>.<本文>") の16進>"。
+ * 受け手は同じ計算をして一致を確かめ、t が古すぎるものは捨てる（再送攻撃よけ）。
+ */
+export function signWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const sig = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${sig}`;
+}
+
+/** 送ってよい送り先か（https で、内側＝ループバック・プライベート等を指していない）。だめなら例外 */
+async function assertDestination(url: string) {
+  const target = new URL(url);
+  if (target.protocol !== "https:" && !ALLOW_PRIVATE_HOSTS) throw new Error("https:// の URL にしてください");
+  await assertPublicHost(target.hostname);
+}
+
+/** 送り先の URL の問題（なければ null） */
+export async function webhookUrlError(url: string): Promise<string | null> {
+  try {
+    await assertDestination(url);
+    return null;
+  } catch (e: unknown) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+export async function listWebhookEndpoints() {
+  const { data, error } = await supabaseAdmin.from(ENDPOINTS).select("*").order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as WebhookEndpoint[];
+}
+
+export async function createWebhookEndpoint(input: z.infer<typeof WebhookEndpointSchema>) {
+  const { data, error } = await supabaseAdmin
+    .from(ENDPOINTS)
+    .insert({ ...input, secret: newSecret() })
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  return data as WebhookEndpoint;
+}
+
+export async function updateWebhookEndpoint(id: string, patch: z.infer<typeof WebhookEndpointPatchSchema>) {
+  const { rotate_secret, ...rest } = patch;
+  const update: Record<string, unknown> = { ...rest, updated_at: new Date().toISOString() };
+  if (rotate_secret) update.secret = newSecret();
+  const { data, error } = await supabaseAdmin.from(ENDPOINTS).update(update).eq("id", id).select().maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as WebhookEndpoint | null;
+}
+
+/** 送り先の削除（配信ログも消える） */
+export async function deleteWebhookEndpoint(id: string) {
+  const { error } = await supabaseAdmin.from(ENDPOINTS).delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+/** 応答のあとで動かす（リクエストの外から呼ばれたときはそのまま裏で動かす） */
+function afterResponse(task: () => Promise<unknown>) {
+  try {
+    after(task);
+  } catch {
+    void task();
+  }
+}
+
+function kickDeliveries() {
+  afterResponse(() => processWebhookDeliveries().catch((e) => console.error("[webhooks] process failed:", e)));
+}
+
+type WebhookItem = { type: WebhookEvent; data: Record<string, unknown> };
+
+/**
+ * 出来事を送り先ごとの配信として積む。注文の応答を待たせないよう、積むのも応答のあと。
+ * 本体の処理は終わっているので、積めなくても失敗させない（ログのみ出す）。
+ */
+export function emitWebhooks(items: WebhookItem[]) {
+  if (items.length === 0) return;
+  afterResponse(() => enqueueWebhooks(items));
+}
+
+async function enqueueWebhooks(items: WebhookItem[]) {
+  try {
+    const { data: endpoints, error } = await supabaseAdmin
+      .from(ENDPOINTS)
+      .select("id, events")
+      .eq("active", true)
+      .overlaps("events", items.map((i) => i.type));
+    if (error) throw new Error(error.message);
+    if (!endpoints || endpoints.length === 0) return;
+
+    const now = new Date().toISOString();
+    const rows = items.flatMap((item) => {
+      const payload: WebhookPayload = { id: randomUUID(), type: item.type, created_at: now, data: item.data };
+      return endpoints
+        .filter((ep) => (ep.events as string[]).includes(item.type))
+        .map((ep) => ({ endpoint_id: ep.id, event_id: payload.id, event_type: item.type, payload }));
+    });
+    if (rows.length === 0) return;
+
+    const { error: insErr } = await supabaseAdmin.from(DELIVERIES).insert(rows);
+    if (insErr) throw new Error(insErr.message);
+    kickDeliveries();
+  } catch (e: unknown) {
+    console.error("[webhooks] enqueue failed:", e instanceof Error ? e.message : e);
+  }
+}
+
+/** 監査ログに記録した注文の出来事のうち、送るものを積む（lib/orderEvents.ts から呼ぶ） */
+export function emitOrderWebhooks(actor: Actor, events: OrderEventInput[]) {
+  const items = events.flatMap((e) => {
+    const type = FROM_ORDER_EVENT[e.type];
+    if (!type) return [];
+    const data = {
+      order_id: e.order_id,
+      order_no: e.order_no ?? null,
+      old_value: e.old_value ?? null,
+      new_value: e.new_value ?? null,
+      actor: { type: actor.type, name: actor.name ?? null },
+    };
+    return [{ type, data }];
+  });
+  emitWebhooks(items);
+}
+
+/** 送り直しの予約（常駐サーバ向け。サーバレスでは次の出来事・定期実行のときに拾われる） */
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleRetry(delaySec: number) {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processWebhookDeliveries().catch((e) => console.error("[webhooks] retry failed:", e));
+  }, delaySec * 1000);
+  retryTimer.unref?.();
+}
+
+/** POST して応答の状態と本文（先頭だけ）を返す。名前解決で内側のアドレスになったら接続しない。リダイレクトは追わない */
+function postJson(url: string, headers: Record<string, string>, body: string) {
+  return new Promise<{ status: number; text: string }>((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === "https:" ? https : http;
+    const req = client.request(
+      target,
+      { method: "POST", headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) }, lookup: publicOnlyLookup },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on("data", (c: Buffer) => {
+          if (size < RESPONSE_LOG_LENGTH * 4) chunks.push(c);
+          size += c.length;
+        });
+        res.on("end", () => {
+          clearTimeout(timer);
+          resolve({ status: res.statusCode ?? 0, text: Buffer.concat(chunks).toString("utf8") });
+        });
+        res.on("error", reject);
+      },
+    );
+    const timer = setTimeout(() => req.destroy(new Error("タイムアウト")), SEND_TIMEOUT_MS);
+    req.on("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    req.end(body);
+  });
+}
+
+/** 1件送る。2xx 以外・タイムアウト・接続失敗は例外にせず結果で返す */
+async function send(endpoint: Pick<WebhookEndpoint, "url" | "secret">, delivery: WebhookDelivery) {
+  const body = JSON.stringify(delivery.payload);
+  try {
+    // 登録後に変わっていないか送るたびに確かめる（IP 直書きの URL は名前解決を通らないのでここで）
+    await assertDestination(endpoint.url);
+    const res = await postJson(
+      endpoint.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "order-admin-webhooks",
+        "X-Webhook-Event": delivery.event_type,
+        "X-Webhook-Id": delivery.event_id,
+        "X-Webhook-Delivery": String(delivery.id),
+        "X-Webhook-Signature": signWebhook(endpoint.secret, body),
+      },
+      body,
+    );
+    const ok = res.status >= 200 && res.status < 300;
+    return { ok, status: res.status, response: res.text.slice(0, RESPONSE_LOG_LENGTH), error: ok ? null : `HTTP ${res.status}` };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, status: null, response: null, error: msg };
+  }
+}
+
+/** 送る番の配信を送る。結果の件数を返す */
+export async function processWebhookDeliveries() {
+  const result = { delivered: 0, retrying: 0, dead: 0 };
+  for (;;) {
+    const { data, error } = await supabaseAdmin.rpc("claim_webhook_deliveries", {
+      p_limit: BATCH_SIZE,
+      p_stale_sec: STALE_SEC,
+    });
+    if (error) throw new Error(error.message);
+    const deliveries = (data ?? []) as WebhookDelivery[];
+    if (deliveries.length === 0) break;
+
+    const ids = Array.from(new Set(deliveries.map((d) => d.endpoint_id)));
+    const { data: eps, error: epErr } = await supabaseAdmin.from(ENDPOINTS).select("id, url, secret, active").in("id", ids);
+    if (epErr) throw new Error(epErr.message);
+    const endpoints = new Map((eps ?? []).map((ep) => [ep.id as string, ep]));
+
+    for (const d of deliveries) {
+      const ep = endpoints.get(d.endpoint_id);
+      const r = ep?.active
+        ? await send(ep, d)
+        : { ok: false, status: null, response: null, error: "送り先が無効です" };
+
+      if (r.ok) {
+        await supabaseAdmin
+          .from(DELIVERIES)
+          .update({
+            status: "delivered",
+            delivered_at: new Date().toISOString(),
+            locked_at: null,
+            last_status_code: r.status,
+            last_error: null,
+            last_response: r.response,
+          })
+          .eq("id", d.id);
+        result.delivered++;
+        continue;
+      }
+
+      const dead = !ep?.active || d.attempts >= MAX_ATTEMPTS;
+      const delay = Math.min(BASE_DELAY_SEC * 2 ** (d.attempts - 1), MAX_DELAY_SEC);
+      await supabaseAdmin
+        .from(DELIVERIES)
+        .update({
+          status: dead ? "dead" : "pending",
+          locked_at: null,
+          next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+          last_status_code: r.status,
+          last_error: r.error,
+          last_response: r.response,
+        })
+        .eq("id", d.id);
+      if (dead) result.dead++;
+      else {
+        result.retrying++;
+        scheduleRetry(delay);
+      }
+    }
+  }
+  return result;
+}
+
+/** 配信ログ（新しい順）。送り先・状態で絞り込める */
+export async function listWebhookDeliveries(
+  filter: { endpointId?: string; status?: WebhookDeliveryStatus; limit?: number } = {},
+) {
+  let q = supabaseAdmin
+    .from(DELIVERIES)
+    .select("*")
+    .order("id", { ascending: false })
+    .limit(filter.limit ?? 100);
+  if (filter.endpointId) q = q.eq("endpoint_id", filter.endpointId);
+  if (filter.status) q = q.eq("status", filter.status);
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return (data ?? []) as WebhookDelivery[];
+}
+
+/** 手動で再送する（dead・送信済みとも。回数は数え直し）。戻せたら true */
+export async function redeliverWebhook(id: number) {
+  const { data, error } = await supabaseAdmin
+    .from(DELIVERIES)
+    .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq("id", id)
+    .in("status", ["dead", "delivered"])
+    .select("id")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (data) kickDeliveries();
+  return Boolean(data);
+}
@@ -0,0 +1,46 @@
+// middleware.ts
+import { NextRequest, NextResponse } from "next/server";
+import { corsHeaders } from "@/lib/cors";
+import { routeAccess } from "@/lib/routeAccess";
+import { DEVICE_COOKIE, SESSION_COOKIE } from "@/lib/sessionCookie";
+
+/**
+ * API の入口での一次チェック。
+ * - 公開ルートはそのまま通す
+ * - 管理ルートはセッションクッキー（または共有端末のクッキー）が無ければ 401
+ * - 管理ルートへの更新系リクエストが別オリジンから来たら 403（CSRF 対策）
+ * セッションの中身（失効・期限）の検証は各ルートの requireAdmin() で行う。
+ */
+/** Origin がこのサーバ自身か（プロキシ配下でも判定できるよう Host ヘッダで比較） */
+function isSameHost(origin: string, req: NextRequest) {
+  const host = req.headers.get("x-forwarded-host") ?? req.headers.get("host") ?? req.nextUrl.host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+export function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const method = req.method.toUpperCase();
+  if (routeAccess(pathname, method) === "public") return NextResponse.next();
+
+  const origin = req.headers.get("origin");
+  const headers = corsHeaders(origin, { methods: "GET, POST, PATCH, DELETE, OPTIONS" });
+
+  if (!req.cookies.get(SESSION_COOKIE)?.value && !req.cookies.get(DEVICE_COOKIE)?.value) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401, headers });
+  }
+
+  const unsafe = method !== "GET" && method !== "HEAD";
+  if (unsafe && origin && !isSameHost(origin, req)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403, headers });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/api/:path*"],
+};
@@ -5,6 +5,8 @@ const nextConfig: NextConfig = {
   reactStrictMode: true,
   // Node.js で動かすためのサーバ出力（Vercel/Render/Railwayなどで安定）
   output: "standalone",
+  // Excel 出力（lib/orderExport.ts）はバンドルせず node_modules から読む
+  serverExternalPackages: ["exceljs"],
 
   // （任意）CIでのビルド安定化。Lintは警告に留める
   eslint: { ignoreDuringBuilds: true },
@@ -0,0 +1,17 @@
+-- 管理者セッション（サーバ保存型）
+-- クッキーにはランダムトークンのみを置き、DB には SHA-256 ハッシュを保存する
+create table if not exists public.admin_sessions (
+  id            uuid primary key default gen_random_uuid(),
+  token_hash    text not null unique,
+  created_at    timestamptz not null default now(),
+  last_seen_at  timestamptz not null default now(),
+  expires_at    timestamptz not null,
+  revoked_at    timestamptz,
+  user_agent    text,
+  ip            text
+);
+
+create index if not exists admin_sessions_expires_at_idx on public.admin_sessions (expires_at);
+
+-- service role からのみ参照する（anon には公開しない）
+alter table public.admin_sessions enable row level security;
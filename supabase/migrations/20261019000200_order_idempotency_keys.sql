@@ -0,0 +1,16 @@
+-- POST /api/orders の Idempotency-Key 保存先
+-- 同じキーの再送には最初の応答（response）をそのまま返す。期限切れ行は再利用時に削除する
+create table if not exists public.order_idempotency_keys (
+  key           text primary key,
+  request_hash  text not null,
+  order_id      uuid references public.orders (id) on delete set null,
+  status_code   integer,
+  response      jsonb,
+  created_at    timestamptz not null default now(),
+  expires_at    timestamptz not null
+);
+
+create index if not exists order_idempotency_keys_expires_at_idx
+  on public.order_idempotency_keys (expires_at);
+
+alter table public.order_idempotency_keys enable row level security;
@@ -0,0 +1,17 @@
+-- メニュー（商品マスタ）。注文の商品名・価格はここを正とする
+create table if not exists public.menu_items (
+  id          text primary key,
+  name        text not null,
+  price       integer not null check (price >= 0),
+  category    text,
+  -- 選択肢: [{ "name": "大盛り", "price": 100 }, ...]
+  options     jsonb not null default '[]'::jsonb,
+  active      boolean not null default true,
+  sort_order  integer not null default 0,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create index if not exists menu_items_sort_idx on public.menu_items (category, sort_order, id);
+
+alter table public.menu_items enable row level security;
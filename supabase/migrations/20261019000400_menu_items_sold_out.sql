@@ -0,0 +1,3 @@
+-- 商品ごとの売り切れフラグ（active=false の「販売停止」とは別に、その日だけ止める用途）
+alter table public.menu_items
+  add column if not exists sold_out boolean not null default false;
@@ -0,0 +1,11 @@
+-- 消費税率（8% 軽減税率 / 10% 標準税率）を商品ごとに設定
+alter table public.menu_items
+  add column if not exists tax_rate smallint not null default 10 check (tax_rate in (8, 10));
+
+-- 注文時点の金額スナップショット（サーバ側で計算して保存）
+alter table public.orders
+  add column if not exists subtotal      integer,
+  add column if not exists tax           integer,
+  add column if not exists total         integer,
+  -- [{ "rate": 8, "subtotal": 1000, "tax": 80 }, ...]
+  add column if not exists tax_breakdown jsonb;
@@ -0,0 +1,21 @@
+-- 客席（テーブル）マスタ。QR の URL には署名付きトークン（id + token_version）を埋め込む
+create table if not exists public.tables (
+  id             uuid primary key default gen_random_uuid(),
+  code           text not null unique,          -- 例: A1（店内での呼び名）
+  label          text not null,                 -- 例: テーブル A1（画面・印刷用）
+  seats          integer,
+  active         boolean not null default true,
+  token_version  integer not null default 1,   -- 上げると古い QR が無効になる
+  sort_order     integer not null default 0,
+  created_at     timestamptz not null default now(),
+  updated_at     timestamptz not null default now()
+);
+
+alter table public.tables enable row level security;
+
+-- 注文にテーブルを記録（ラベルは注文時点のスナップショット）
+alter table public.orders
+  add column if not exists table_id    uuid references public.tables (id) on delete set null,
+  add column if not exists table_label text;
+
+create index if not exists orders_table_id_idx on public.orders (table_id, created_at desc);
@@ -0,0 +1,24 @@
+-- 注文ステータスを 受付 → 調理 → 提供可 → 提供済 に拡張
+-- 旧 "completed" は "served" に移行する
+alter table public.orders
+  add column if not exists accepted_at  timestamptz,
+  add column if not exists preparing_at timestamptz,
+  add column if not exists ready_at     timestamptz,
+  add column if not exists served_at    timestamptz,
+  add column if not exists cancelled_at timestamptz;
+
+alter table public.orders drop constraint if exists orders_status_check;
+
+update public.orders
+   set status = 'served', served_at = coalesce(served_at, updated_at, created_at)
+ where status = 'completed';
+
+alter table public.orders
+  add constraint orders_status_check
+  check (status in ('pending', 'accepted', 'preparing', 'ready', 'served', 'cancelled'));
+
+create index if not exists orders_status_created_at_idx on public.orders (status, created_at desc);
+
+-- 遷移ルールの上書き（任意）。未設定なら lib/orderStatus.ts の既定値
+-- 例: insert into app_settings (key, value) values
+--   ('order_transitions', '{"transitions": {"served": ["pending"]}}');
@@ -0,0 +1,18 @@
+-- 注文の監査ログ（作成・ステータス変更・メモ編集・削除）
+-- 注文が削除されても履歴は残すため orders への外部キーは張らない
+create table if not exists public.order_events (
+  id          bigint generated always as identity primary key,
+  order_id    uuid not null,
+  order_no    text,
+  type        text not null check (type in ('created', 'status_changed', 'note_changed', 'deleted')),
+  actor_type  text not null check (actor_type in ('admin', 'customer', 'system')),
+  actor_id    text,
+  actor_name  text,
+  old_value   jsonb,
+  new_value   jsonb,
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists order_events_order_id_idx on public.order_events (order_id, id);
+
+alter table public.order_events enable row level security;
@@ -0,0 +1,12 @@
+-- 「処理済みクリア」は削除ではなくアーカイブ（cleared_at を立てる）に変更
+-- ボードは cleared_at is null だけを表示し、集計・検索・エクスポートは全件を対象にする
+alter table public.orders
+  add column if not exists cleared_at timestamptz;
+
+create index if not exists orders_cleared_at_idx on public.orders (cleared_at);
+
+-- 監査ログにクリア（アーカイブ）を追加
+alter table public.order_events drop constraint if exists order_events_type_check;
+alter table public.order_events
+  add constraint order_events_type_check
+  check (type in ('created', 'status_changed', 'note_changed', 'cleared', 'deleted'));
@@ -0,0 +1,75 @@
+-- 売上レポート用の集計関数（日付は日本時間で区切る）
+-- 集計は DB 側で行い、API は結果だけを受け取る（PostgREST の取得件数上限に影響されない）
+
+-- 期間の共通条件：[p_from 00:00 JST, p_to+1 00:00 JST)
+create or replace function public.report_summary(p_from date, p_to date)
+returns table (
+  orders              bigint,
+  cancelled           bigint,
+  revenue             bigint,
+  avg_completion_sec  numeric
+)
+language sql stable as $$
+  select
+    count(*) filter (where status <> 'cancelled'),
+    count(*) filter (where status = 'cancelled'),
+    coalesce(sum(total) filter (where status <> 'cancelled'), 0)::bigint,
+    round(avg(extract(epoch from served_at - created_at)) filter (where served_at is not null), 1)
+  from public.orders
+  where created_at >= (p_from::timestamp at time zone 'Asia/Tokyo')
+    and created_at <  ((p_to + 1)::timestamp at time zone 'Asia/Tokyo');
+$$;
+
+create or replace function public.report_daily(p_from date, p_to date)
+returns table (day date, orders bigint, cancelled bigint, revenue bigint)
+language sql stable as $$
+  select
+    d::date,
+    count(o.id) filter (where o.status <> 'cancelled'),
+    count(o.id) filter (where o.status = 'cancelled'),
+    coalesce(sum(o.total) filter (where o.status <> 'cancelled'), 0)::bigint
+  from generate_series(p_from, p_to, interval '1 day') as d
+  left join public.orders o
+    on (o.created_at at time zone 'Asia/Tokyo')::date = d::date
+   and o.created_at >= (p_from::timestamp at time zone 'Asia/Tokyo')
+   and o.created_at <  ((p_to + 1)::timestamp at time zone 'Asia/Tokyo')
+  group by d
+  order by d;
+$$;
+
+create or replace function public.report_hourly(p_from date, p_to date)
+returns table (hour integer, orders bigint, revenue bigint)
+language sql stable as $$
+  select
+    h,
+    count(o.id),
+    coalesce(sum(o.total), 0)::bigint
+  from generate_series(0, 23) as h
+  left join public.orders o
+    on extract(hour from o.created_at at time zone 'Asia/Tokyo')::int = h
+   and o.status <> 'cancelled'
+   and o.created_at >= (p_from::timestamp at time zone 'Asia/Tokyo')
+   and o.created_at <  ((p_to + 1)::timestamp at time zone 'Asia/Tokyo')
+  group by h
+  order by h;
+$$;
+
+create or replace function public.report_top_items(p_from date, p_to date, p_limit integer default 20)
+returns table (item_id text, name text, qty bigint, revenue bigint)
+language sql stable as $$
+  select
+    line->>'id',
+    max(line->>'name'),
+    sum((line->>'qty')::int)::bigint,
+    coalesce(sum((line->>'qty')::int * (line->>'price')::int), 0)::bigint
+  from public.orders o
+  cross join lateral jsonb_array_elements(o.items) as line
+  where o.status <> 'cancelled'
+    and o.created_at >= (p_from::timestamp at time zone 'Asia/Tokyo')
+    and o.created_at <  ((p_to + 1)::timestamp at time zone 'Asia/Tokyo')
+  group by line->>'id'
+  order by 3 desc, 4 desc
+  limit p_limit;
+$$;
+
+create index if not exists orders_created_at_idx on public.orders (created_at);
@@ -0,0 +1,11 @@
+-- お客様向け注文状況ページ（/o/[order_no]?t=...）用の推測できないトークン
+-- 注文番号だけでは照会できないようにする
+alter table public.orders
+  add column if not exists public_token text;
+
+-- 既存の注文にも発行しておく
+update public.orders
+   set public_token = replace(gen_random_uuid()::text, '-', '')
+ where public_token is null;
+
+create unique index if not exists orders_public_token_key on public.orders (public_token);
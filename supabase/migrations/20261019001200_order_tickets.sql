@@ -0,0 +1,26 @@
+-- 注文番号を「営業日ごとの連番（呼び出し番号）」にする
+-- 採番は DB の行ロックで直列化するので、同時注文でも重複・リトライが起きない
+-- （照会の保護は public_token が担うので、番号自体は推測されてもよい）
+create table if not exists public.order_counters (
+  business_date  date primary key,            -- 日本時間の日付
+  last_ticket    integer not null default 0
+);
+
+alter table public.order_counters enable row level security;
+
+alter table public.orders
+  add column if not exists business_date date,
+  add column if not exists ticket_no     integer;
+
+create unique index if not exists orders_business_date_ticket_key
+  on public.orders (business_date, ticket_no);
+
+-- 指定日の次の番号（1 から）を払い出す
+create or replace function public.next_order_ticket(p_date date)
+returns integer
+language sql volatile as $$
+  insert into public.order_counters as c (business_date, last_ticket)
+  values (p_date, 1)
+  on conflict (business_date) do update set last_ticket = c.last_ticket + 1
+  returning last_ticket;
+$$;
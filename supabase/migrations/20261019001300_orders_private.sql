@@ -0,0 +1,26 @@
+-- 管理画面はサーバの SSE（/api/orders/stream）で変更を受け取るようになったので、
+-- ブラウザの anon キーで orders を読めるようにしておく必要はもうない
+alter table public.orders enable row level security;
+
+do $$
+declare
+  p record;
+begin
+  -- anon 向けに作っていた読み取りポリシーを外す（service_role は RLS の対象外）
+  for p in
+    select policyname from pg_policies
+     where schemaname = 'public' and tablename = 'orders' and 'anon' = any (roles)
+  loop
+    execute format('drop policy if exists %I on public.orders', p.policyname);
+  end loop;
+
+  -- Realtime の配信対象からも外す
+  if exists (
+    select 1 from pg_publication_tables
+     where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'orders'
+  ) then
+    alter publication supabase_realtime drop table public.orders;
+  end if;
+end $$;
+
+revoke select on public.orders from anon;
@@ -0,0 +1,21 @@
+-- 差分同期（GET /api/orders?updated_since=...）用：更新のたびに updated_at を進める
+-- アプリ側で付け忘れても必ず更新されるよう DB のトリガーで行う
+alter table public.orders
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.orders_touch_updated_at()
+returns trigger
+language plpgsql as $$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_touch_updated_at on public.orders;
+create trigger orders_touch_updated_at
+  before update on public.orders
+  for each row execute function public.orders_touch_updated_at();
+
+create index if not exists orders_updated_at_idx on public.orders (updated_at);
+create index if not exists order_events_deleted_idx on public.order_events (created_at) where type = 'deleted';
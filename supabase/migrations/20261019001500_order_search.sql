@@ -0,0 +1,22 @@
+-- 注文一覧の検索（注文番号・メモ・商品名の部分一致）
+-- 商品名は items（jsonb 配列）の中にあるので、検索用の列を生成して trigram インデックスを張る
+create extension if not exists pg_trgm;
+
+alter table public.orders
+  add column if not exists search_text text
+  generated always as (
+    lower(
+      coalesce(order_no, '') || ' ' ||
+      coalesce(note, '') || ' ' ||
+      coalesce(jsonb_path_query_array(items, '$[*].name')::text, '')
+    )
+  ) stored;
+
+create index if not exists orders_search_text_trgm_idx
+  on public.orders using gin (search_text gin_trgm_ops);
+
+-- 商品 ID での絞り込み（items @> '[{"id": "..."}]'）
+create index if not exists orders_items_gin_idx
+  on public.orders using gin (items jsonb_path_ops);
+
+create index if not exists orders_total_idx on public.orders (total);
@@ -0,0 +1,33 @@
+-- キッチンの持ち場（焼き場・揚げ場・ドリンク等）と商品の割り当て
+create table if not exists public.stations (
+  id          text primary key,                -- 例: grill
+  name        text not null,                   -- 例: 焼き場
+  sort_order  integer not null default 0,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.stations enable row level security;
+
+alter table public.menu_items
+  add column if not exists station_id text references public.stations (id) on delete set null;
+
+-- 注文ごとに「作り終えた持ち場」を記録（明細の station は注文時点のスナップショット）
+alter table public.orders
+  add column if not exists stations_done text[] not null default '{}';
+
+-- 持ち場の完了を追記（同時に別の持ち場が完了しても消し合わない）
+create or replace function public.mark_station_done(p_order_id uuid, p_station text)
+returns setof public.orders
+language sql volatile as $$
+  update public.orders
+     set stations_done = array(select distinct unnest(stations_done || p_station) order by 1)
+   where id = p_order_id
+  returning *;
+$$;
+
+-- 監査ログに持ち場の完了を追加
+alter table public.order_events drop constraint if exists order_events_type_check;
+alter table public.order_events
+  add constraint order_events_type_check
+  check (type in ('created', 'status_changed', 'note_changed', 'cleared', 'deleted', 'station_done'));
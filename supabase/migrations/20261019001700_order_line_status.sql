@@ -0,0 +1,26 @@
+-- 明細ごとの提供・取消（items[].status / cancel_reason）
+-- 取消した明細は orders.total から外す（アプリ側で再計算）。売れ筋集計からも除く
+
+alter table public.order_events drop constraint if exists order_events_type_check;
+alter table public.order_events
+  add constraint order_events_type_check
+  check (type in ('created', 'status_changed', 'note_changed', 'cleared', 'deleted', 'station_done', 'item_changed'));
+
+create or replace function public.report_top_items(p_from date, p_to date, p_limit integer default 20)
+returns table (item_id text, name text, qty bigint, revenue bigint)
+language sql stable as $$
+  select
+    line->>'id',
+    max(line->>'name'),
+    sum((line->>'qty')::int)::bigint,
+    coalesce(sum((line->>'qty')::int * (line->>'price')::int), 0)::bigint
+  from public.orders o
+  cross join lateral jsonb_array_elements(o.items) as line
+  where o.status <> 'cancelled'
+    and coalesce(line->>'status', 'pending') <> 'cancelled'
+    and o.created_at >= (p_from::timestamp at time zone 'Asia/Tokyo')
+    and o.created_at <  ((p_to + 1)::timestamp at time zone 'Asia/Tokyo')
+  group by line->>'id'
+  order by 3 desc, 4 desc
+  limit p_limit;
+$$;
@@ -0,0 +1,22 @@
+-- スタッフアカウント（共有パスワードをやめて個人ごとにログインする）
+-- password_hash は scrypt（lib/password.ts の形式）。平文は保存しない
+create table if not exists public.staff (
+  id             uuid primary key default gen_random_uuid(),
+  login_id       text not null unique,
+  name           text not null,
+  role           text not null check (role in ('owner', 'manager', 'kitchen')),
+  password_hash  text not null,
+  active         boolean not null default true,
+  last_login_at  timestamptz,
+  created_at     timestamptz not null default now(),
+  updated_at     timestamptz not null default now()
+);
+
+alter table public.staff enable row level security;
+
+-- セッションは誰のものか（スタッフを削除したらセッションも消す）
+-- 共有パスワード時代のセッションは staff_id が無いので無効になり、再ログインが必要
+alter table public.admin_sessions
+  add column if not exists staff_id uuid references public.staff (id) on delete cascade;
+
+create index if not exists admin_sessions_staff_id_idx on public.admin_sessions (staff_id);
@@ -0,0 +1,40 @@
+-- ログイン試行の制限（IP ごと・アカウントごとの失敗回数）と試行ログ
+
+-- 失敗回数のカウンタ。key は "ip:<アドレス>" / "account:<ログインID>"
+create table if not exists public.login_throttle (
+  key              text primary key,
+  failures         integer not null default 0,
+  last_failure_at  timestamptz not null default now()
+);
+
+alter table public.login_throttle enable row level security;
+
+-- 失敗を1回数える（最後の失敗から p_window_sec 以上空いていたら数え直し）。同時に来ても取りこぼさない
+create or replace function public.login_throttle_fail(p_key text, p_window_sec integer)
+returns table (failures integer, last_failure_at timestamptz)
+language sql volatile as $$
+  insert into public.login_throttle as t (key, failures, last_failure_at)
+  values (p_key, 1, now())
+  on conflict (key) do update
+    set failures = case
+          when t.last_failure_at < now() - make_interval(secs => p_window_sec) then 1
+          else t.failures + 1
+        end,
+        last_failure_at = now()
+  returning t.failures, t.last_failure_at;
+$$;
+
+-- 試行ログ（オーナーが確認する）
+create table if not exists public.login_attempts (
+  id          bigint generated always as identity primary key,
+  login_id    text,
+  staff_id    uuid references public.staff (id) on delete set null,
+  ip          text,
+  user_agent  text,
+  result      text not null check (result in ('success', 'failed', 'throttled')),
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists login_attempts_created_at_idx on public.login_attempts (created_at desc);
+
+alter table public.login_attempts enable row level security;
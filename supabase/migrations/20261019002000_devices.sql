@@ -0,0 +1,24 @@
+-- 共有端末（キッチンのタブレット等）の登録と、スタッフの PIN による担当者切り替え
+
+-- 端末。クッキーにはランダムトークンのみを置き、DB には SHA-256 ハッシュを保存する
+-- active_staff_id が今操作している人（PIN で切り替え。無操作が続くと外れる＝ロック）
+create table if not exists public.devices (
+  id                uuid primary key default gen_random_uuid(),
+  name              text not null,
+  token_hash        text not null unique,
+  active_staff_id   uuid references public.staff (id) on delete set null,
+  last_activity_at  timestamptz,
+  created_by        uuid references public.staff (id) on delete set null,
+  created_at        timestamptz not null default now(),
+  last_seen_at      timestamptz not null default now(),
+  revoked_at        timestamptz
+);
+
+alter table public.devices enable row level security;
+
+-- スタッフの PIN（scrypt。未設定の人は端末で切り替えられない）
+alter table public.staff add column if not exists pin_hash text;
+
+-- ログイン試行ログにパスワード / PIN の別を追加
+alter table public.login_attempts
+  add column if not exists method text not null default 'password' check (method in ('password', 'pin'));
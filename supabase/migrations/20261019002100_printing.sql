@@ -0,0 +1,50 @@
+-- 伝票・レシートの印刷（ネットワークのサーマルプリンタに ESC/POS を raw TCP で送る）
+
+-- 持ち場ごとのプリンタ（未設定ならその持ち場の伝票は自動では印刷しない）
+alter table public.stations
+  add column if not exists printer_host text,
+  add column if not exists printer_port integer not null default 9100
+    check (printer_port between 1 and 65535);
+
+-- 印刷キュー。doc は印刷内容（lib/printDoc.ts の PrintDoc）で、登録した時点の内容を刷る
+create table if not exists public.print_jobs (
+  id               bigint generated always as identity primary key,
+  order_id         uuid references public.orders (id) on delete cascade,
+  order_no         text,
+  kind             text not null check (kind in ('kitchen', 'receipt')),
+  station_id       text,
+  printer_host     text not null,
+  printer_port     integer not null default 9100,
+  doc              jsonb not null,
+  status           text not null default 'queued' check (status in ('queued', 'printing', 'printed', 'failed')),
+  attempts         integer not null default 0,
+  next_attempt_at  timestamptz not null default now(),
+  locked_at        timestamptz,
+  last_error       text,
+  requested_by     text,
+  created_at       timestamptz not null default now(),
+  printed_at       timestamptz
+);
+
+create index if not exists print_jobs_due_idx on public.print_jobs (next_attempt_at) where status = 'queued';
+create index if not exists print_jobs_order_idx on public.print_jobs (order_id);
+
+alter table public.print_jobs enable row level security;
+
+-- 送る番の印刷を取り出して「印刷中」にする。
+-- 同時に複数のリクエストから呼ばれても同じ印刷を二重に取らない。送信中に落ちたもの（p_stale_sec 経過）は取り直す
+create or replace function public.claim_print_jobs(p_limit integer, p_stale_sec integer)
+returns setof public.print_jobs
+language sql volatile as $$
+  update public.print_jobs j
+     set status = 'printing', attempts = j.attempts + 1, locked_at = now()
+   where j.id in (
+     select id from public.print_jobs
+      where (status = 'queued' and next_attempt_at <= now())
+         or (status = 'printing' and locked_at < now() - make_interval(secs => p_stale_sec))
+      order by id
+      limit p_limit
+      for update skip locked
+   )
+  returning j.*;
+$$;
@@ -0,0 +1,56 @@
+-- 外部連携（Webhook）。注文の出来事を登録先の URL に署名付き JSON で送る
+
+-- 送り先。secret は署名（HMAC-SHA256）の鍵で、受け手と共有する
+create table if not exists public.webhook_endpoints (
+  id           uuid primary key default gen_random_uuid(),
+  url          text not null check (url ~ '^https?://'),
+  description  text,
+  secret       text not null,
+  -- 送る出来事（order.created / order.status_changed / order_stop.changed / order.cleared）
+  events       text[] not null default '{}',
+  active       boolean not null default true,
+  created_at   timestamptz not null default now(),
+  updated_at   timestamptz not null default now()
+);
+
+alter table public.webhook_endpoints enable row level security;
+
+-- 配信（送り先 × 出来事ごとに 1 行）。失敗は間隔を倍々に空けて送り直し、上限で dead（手動で再送できる）
+create table if not exists public.webhook_deliveries (
+  id                bigint generated always as identity primary key,
+  endpoint_id       uuid not null references public.webhook_endpoints (id) on delete cascade,
+  event_id          uuid not null,            -- 同じ出来事なら送り先が違っても同じ（受け手の重複排除用）
+  event_type        text not null,
+  payload           jsonb not null,
+  status            text not null default 'pending' check (status in ('pending', 'delivering', 'delivered', 'dead')),
+  attempts          integer not null default 0,
+  next_attempt_at   timestamptz not null default now(),
+  locked_at         timestamptz,
+  last_status_code  integer,
+  last_error        text,
+  last_response     text,
+  created_at        timestamptz not null default now(),
+  delivered_at      timestamptz
+);
+
+create index if not exists webhook_deliveries_due_idx on public.webhook_deliveries (next_attempt_at) where status = 'pending';
+create index if not exists webhook_deliveries_endpoint_idx on public.webhook_deliveries (endpoint_id, id desc);
+
+alter table public.webhook_deliveries enable row level security;
+
+-- 送る番の配信を取り出して「送信中」にする（同時に呼ばれても二重に取らない。送信中に落ちたものは p_stale_sec 後に取り直す）
+create or replace function public.claim_webhook_deliveries(p_limit integer, p_stale_sec integer)
+returns setof public.webhook_deliveries
+language sql volatile as $$
+  update public.webhook_deliveries d
+     set status = 'delivering', attempts = d.attempts + 1, locked_at = now()
+   where d.id in (
+     select id from public.webhook_deliveries
+      where (status = 'pending' and next_attempt_at <= now())
+         or (status = 'delivering' and locked_at < now() - make_interval(secs => p_stale_sec))
+      order by id
+      limit p_limit
+      for update skip locked
+   )
+  returning d.*;
+$$;
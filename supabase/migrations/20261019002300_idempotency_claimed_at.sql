@@ -0,0 +1,3 @@
+-- 処理中のまま残ったキー（最初のリクエストが complete/release 前に落ちた）を取り直せるよう、確保した時刻を持つ
+alter table public.order_idempotency_keys
+  add column if not exists claimed_at timestamptz not null default now();